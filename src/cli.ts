@@ -0,0 +1,288 @@
+#!/usr/bin/env bun
+import { parseArgs } from "node:util";
+import fs from "node:fs/promises";
+import { constants } from "node:fs";
+import JSZip from "jszip";
+import pack, { convertToPem, CrxFormatError, extract, generateCrxId, generatePrivateKey, generatePublicKey, generateUpdateXML, importKey, keyFingerprint, KeyError, ManifestError, PackCrxError, unpack, verify, type ChromeManifest, type KeyAlgorithm, type VersionBump } from "./index";
+
+/** The command succeeded. */
+const EXIT_OK = 0;
+/** The command failed while running. */
+const EXIT_FAILURE = 1;
+/** The command line itself was wrong. */
+const EXIT_USAGE = 2;
+
+const usage = `Usage: pack-crx <command> [options]
+
+Commands:
+  pack <dir> --key <key.pem | env:NAME> --out <ext.crx> [--crx-version 2|3] [--reproducible] [--bump major|minor|patch|build]
+      Pack a directory into a CRX file. If the key file doesn't exist, a new one is generated and written there.
+      --bump increments that part of the packed manifest's version.
+      The key can be PEM, DER or a JSON Web Key; env:NAME reads it from the environment variable NAME.
+  keygen [--bits <n>] [--algorithm rsa|ecdsa] [--out <key.pem>]
+      Generate a private key in pkcs8-pem format (encrypted, with --passphrase-env).
+  id <key | file.crx>
+      Print the extension ID for a key or a CRX file.
+  fingerprint <key>
+      Print the SHA-256 fingerprint of a key's public key.
+  unpack <file.crx> <outdir>
+      Extract the contents of a CRX file into a directory.
+  update-xml --url <crx url> (--crx <file.crx> | --id <id> --ext-version <version>) [--min-chrome <version>] [--out <updates.xml>]
+      Generate an updates XML file.
+
+Global options:
+  --passphrase-env <name>    Read the passphrase for encrypted keys from an environment variable.
+  --json                     Print results as JSON.
+  --help                     Show this message.
+`;
+
+class UsageError extends Error {}
+
+interface Output {
+    /** What to print in JSON mode. */
+    json: object;
+    /** What to print otherwise. */
+    text: string;
+}
+
+async function exists(path: string): Promise<boolean> {
+    try {
+        await fs.access(path);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+function getPassphrase(values: Record<string, string | boolean | undefined>): string | undefined {
+    const name = values["passphrase-env"] as string | undefined;
+    if (name == undefined) return undefined;
+    const passphrase = process.env[name];
+    if (passphrase == undefined) throw new UsageError(`The environment variable ${name} is not set`);
+    return passphrase;
+}
+
+/**
+ * Read a file, or the environment variable `NAME` if `file` is `env:NAME`.
+ */
+async function readInput(file: string): Promise<Uint8Array | string> {
+    if (!file.startsWith("env:")) return Uint8Array.from(await fs.readFile(file));
+    const value = process.env[file.slice(4)];
+    if (value == undefined) throw new KeyError("KEY_NOT_FOUND", `The environment variable ${file.slice(4)} is not set`);
+    return value;
+}
+
+/**
+ * Read a private or public key in any format.
+ */
+function readAnyKey(data: Uint8Array | string, passphrase: string | undefined): {key: Uint8Array, type: "private" | "public"} {
+    try {
+        return {key: importKey(data, "private", passphrase), type: "private"};
+    } catch (e) {
+        // Only fall back to a public key if the key isn't a private one that failed to decrypt
+        if (e instanceof KeyError && (e.code == "KEY_PASSPHRASE_REQUIRED" || e.code == "KEY_PASSPHRASE_WRONG")) throw e;
+        return {key: importKey(data, "public"), type: "public"};
+    }
+}
+
+function isCrx(data: Uint8Array): boolean {
+    return data.length >= 4 && String.fromCharCode(...data.subarray(0, 4)) == "Cr24";
+}
+
+async function readManifest(archive: Uint8Array): Promise<ChromeManifest> {
+    const manifest = (await JSZip.loadAsync(archive)).file("manifest.json");
+    if (!manifest) throw new ManifestError("MANIFEST_MISSING", "Manifest file not found", {path: "manifest.json"});
+    return JSON.parse(await manifest.async("string"));
+}
+
+async function commandPack(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const [dir] = positionals;
+    const key = values.key as string | undefined;
+    const out = values.out as string | undefined;
+    if (!dir) throw new UsageError("pack needs a directory");
+    if (!key) throw new UsageError("pack needs --key");
+    if (!out) throw new UsageError("pack needs --out");
+    const crxVersion = values["crx-version"] == undefined ? 3 : Number(values["crx-version"]);
+    if (crxVersion != 2 && crxVersion != 3) throw new UsageError("--crx-version must be 2 or 3");
+    const bump = values.bump as VersionBump | undefined;
+    if (bump != undefined && !["major", "minor", "patch", "build"].includes(bump)) throw new UsageError("--bump must be major, minor, patch or build");
+    
+    const passphrase = getPassphrase(values);
+    const keyGenerated = !key.startsWith("env:") && !await exists(key);
+    if (keyGenerated) await fs.writeFile(key, convertToPem(generatePrivateKey(), "private", passphrase), {flag: constants.O_CREAT | constants.O_EXCL | constants.O_WRONLY});
+    const result = await pack({
+        contents: dir,
+        privateKey: key,
+        passphrase,
+        crxVersion,
+        reproducible: values.reproducible as boolean | undefined,
+        bumpVersion: bump,
+        crx: null,
+        id: null
+    });
+    await fs.writeFile(out, result.crx);
+    
+    return {
+        json: {id: result.id, version: result.manifest.version, crxVersion, out, key, keyGenerated},
+        text: `Packed ${result.manifest.name} ${result.manifest.version} (${result.id}) into ${out}` + (keyGenerated ? `\nGenerated a new key at ${key}` : "")
+    };
+}
+
+async function commandKeygen(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const bits = values.bits == undefined ? 4096 : Number(values.bits);
+    if (!Number.isInteger(bits) || bits < 512) throw new UsageError("--bits must be an integer of at least 512");
+    const algorithm = (values.algorithm ?? "rsa") as KeyAlgorithm;
+    if (algorithm != "rsa" && algorithm != "ecdsa") throw new UsageError("--algorithm must be rsa or ecdsa");
+    const out = values.out as string | undefined;
+    
+    const privateKey = generatePrivateKey(bits, algorithm);
+    const pem = convertToPem(privateKey, "private", getPassphrase(values));
+    const id = generateCrxId(generatePublicKey(privateKey));
+    if (out) await fs.writeFile(out, pem, {flag: constants.O_CREAT | constants.O_EXCL | constants.O_WRONLY});
+    
+    return {
+        json: out ? {id, algorithm, out} : {id, algorithm, key: pem},
+        text: out ? `Wrote a new key for ${id} to ${out}` : pem.trimEnd()
+    };
+}
+
+async function commandId(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const [file] = positionals;
+    if (!file) throw new UsageError("id needs a key or CRX file");
+    const data = await readInput(file);
+    
+    if (typeof data != "string" && isCrx(data)) {
+        const result = verify(data);
+        if (!result.id) throw new CrxFormatError("INVALID_HEADER", `Could not find the extension ID: ${result.errors.join("; ")}`, {path: file});
+        return {
+            json: {id: result.id, source: "crx", crxVersion: result.crxVersion, valid: result.valid},
+            text: result.id
+        };
+    }
+    
+    const {key, type} = readAnyKey(data, getPassphrase(values));
+    const id = generateCrxId(type == "private" ? generatePublicKey(key) : key);
+    return {json: {id, source: "key"}, text: id};
+}
+
+async function commandFingerprint(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const [file] = positionals;
+    if (!file) throw new UsageError("fingerprint needs a key");
+    const {key, type} = readAnyKey(await readInput(file), getPassphrase(values));
+    const fingerprint = keyFingerprint(key, type);
+    const id = generateCrxId(type == "private" ? generatePublicKey(key) : key);
+    return {json: {fingerprint, id, type}, text: fingerprint};
+}
+
+async function commandUnpack(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const [file, outDir] = positionals;
+    if (!file || !outDir) throw new UsageError("unpack needs a CRX file and an output directory");
+    
+    const crx = Uint8Array.from(await fs.readFile(file));
+    const {crxVersion} = unpack(crx);
+    const {files, id} = await extract(crx, outDir);
+    
+    return {
+        json: {id, crxVersion, outDir, files},
+        text: `Extracted ${files.length} files into ${outDir}`
+    };
+}
+
+async function commandUpdateXml(positionals: string[], values: Record<string, string | boolean | undefined>): Promise<Output> {
+    const url = values.url as string | undefined;
+    if (!url) throw new UsageError("update-xml needs --url");
+    let id = values.id as string | undefined;
+    let version = values["ext-version"] as string | undefined;
+    let minChromeVersion = values["min-chrome"] as string | undefined;
+    let crx: Uint8Array | undefined;
+    
+    if (values.crx) {
+        crx = Uint8Array.from(await fs.readFile(values.crx as string));
+        const result = verify(crx);
+        if (!result.id) throw new CrxFormatError("INVALID_HEADER", `Could not find the extension ID: ${result.errors.join("; ")}`, {path: values.crx as string});
+        const manifest = await readManifest(unpack(crx).archive);
+        id ??= result.id;
+        version ??= manifest.version;
+        minChromeVersion ??= manifest.minimum_chrome_version;
+    }
+    if (!id || !version) throw new UsageError("update-xml needs --crx, or both --id and --ext-version");
+    
+    const xml = generateUpdateXML(id, url, version, minChromeVersion, crx);
+    const out = values.out as string | undefined;
+    if (out) await fs.writeFile(out, xml);
+    
+    return {
+        json: out ? {id, version, url, out} : {id, version, url, updateXML: xml},
+        text: out ? `Wrote ${out}` : xml
+    };
+}
+
+const commands: Record<string, (positionals: string[], values: Record<string, string | boolean | undefined>) => Promise<Output>> = {
+    "pack": commandPack,
+    "keygen": commandKeygen,
+    "id": commandId,
+    "fingerprint": commandFingerprint,
+    "unpack": commandUnpack,
+    "update-xml": commandUpdateXml
+};
+
+/**
+ * Run the command-line interface.
+ * 
+ * @param argv The arguments, not including the executable and script paths.
+ * 
+ * @returns The exit code: 0 on success, 1 if the command failed, or 2 if the command line was wrong.
+ */
+export async function main(argv: string[]): Promise<number> {
+    const json = argv.includes("--json");
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                "json": {type: "boolean"},
+                "help": {type: "boolean", short: "h"},
+                "key": {type: "string"},
+                "passphrase-env": {type: "string"},
+                "out": {type: "string", short: "o"},
+                "crx-version": {type: "string"},
+                "reproducible": {type: "boolean"},
+                "bump": {type: "string"},
+                "bits": {type: "string"},
+                "algorithm": {type: "string"},
+                "url": {type: "string"},
+                "id": {type: "string"},
+                "crx": {type: "string"},
+                "ext-version": {type: "string"},
+                "min-chrome": {type: "string"}
+            }
+        });
+    } catch (e) {
+        return fail(e, json, EXIT_USAGE);
+    }
+    const {values, positionals: [command, ...positionals]} = parsed;
+    
+    if (values.help || command == undefined) {
+        (command == undefined && !values.help ? process.stderr : process.stdout).write(usage);
+        return command == undefined && !values.help ? EXIT_USAGE : EXIT_OK;
+    }
+    if (!Object.hasOwn(commands, command)) return fail(new UsageError(`Unknown command: ${command}`), json, EXIT_USAGE);
+    
+    try {
+        const output = await commands[command](positionals, values);
+        process.stdout.write((json ? JSON.stringify(output.json) : output.text) + "\n");
+        return EXIT_OK;
+    } catch (e) {
+        return fail(e, json, e instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE);
+    }
+}
+
+function fail(e: unknown, json: boolean, code: number): number {
+    const message = e instanceof Error ? e.message : `${e}`;
+    if (json) process.stdout.write(JSON.stringify({error: message, code: e instanceof PackCrxError ? e.code : undefined}) + "\n");
+    else process.stderr.write(`pack-crx: ${message}\n` + (code == EXIT_USAGE ? "Run pack-crx --help for usage.\n" : ""));
+    return code;
+}
+
+if (import.meta.main) process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,336 @@
+/**
+ * The parts of the CRX and ZIP formats that don't need Node, shared by the main entry point and `pack-crx/web`.
+ */
+import Pbf from "pbf";
+import * as crx3 from "./crx3.pb";
+import JSZip from "jszip";
+import { CrxFormatError, ManifestError } from "./errors";
+import type { ChromeManifest } from "./index";
+
+export interface CrxFileHeader {
+    sha256_with_rsa?: AsymmetricKeyProof[];
+    sha256_with_ecdsa?: AsymmetricKeyProof[];
+    signed_header_data?: Uint8Array;
+}
+
+export interface AsymmetricKeyProof {
+    public_key?: Uint8Array;
+    signature?: Uint8Array;
+}
+
+/**
+ * CRX IDs are 16 bytes long
+ * @constant
+ */
+export const CRX_ID_SIZE = 16;
+
+/**
+ * CRX3 uses 32bit numbers in various places,
+ * so let's prepare size constant for that.
+ * @constant
+ */
+export const SIZE_BYTES = 4;
+
+/**
+ * Used for file format.
+ * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
+ * @constant
+ */
+export const kSignature = Uint8Array.from("Cr24", ch => ch.charCodeAt(0));
+
+/**
+ * Used for file format.
+ * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
+ * @constant
+ */
+export const kVersion = Uint8Array.from([3, 0, 0, 0]);
+
+/**
+ * Used for generating package signatures.
+ * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
+ * @constant
+ */
+export const kSignatureContext = Uint8Array.from("CRX3 SignedData\x00", ch => ch.charCodeAt(0));
+
+export function writeCrx3(fileHeader: CrxFileHeader, contents: Uint8Array): Uint8Array {
+    const pb = new Pbf();
+    crx3.CrxFileHeader.write(fileHeader, pb);
+    const header = pb.finish();
+    
+    const size =
+        kSignature.length + // Magic constant
+        kVersion.length + // Version number
+        SIZE_BYTES + // Header size
+        header.length +
+        contents.length;
+    
+    const result = new Uint8Array(size);
+    
+    let index = 0;
+    result.set(kSignature, index);
+    result.set(kVersion, index += kSignature.length);
+    new DataView(result.buffer).setUint32(index += kVersion.length, header.length, true);
+    result.set(header, index += SIZE_BYTES);
+    result.set(contents, index += header.length);
+    
+    return result;
+}
+
+export function generateCrx3SignedPayload(signedHeaderData: Uint8Array, contents: Uint8Array): Uint8Array {
+    const result = new Uint8Array(kSignatureContext.length + SIZE_BYTES + signedHeaderData.length + contents.length);
+    
+    let index = 0;
+    result.set(kSignatureContext, index);
+    // Size of signed_header_data
+    new DataView(result.buffer).setUint32(index += kSignatureContext.length, signedHeaderData.length, true);
+    result.set(signedHeaderData, index += SIZE_BYTES);
+    result.set(contents, index += signedHeaderData.length);
+    
+    return result;
+}
+
+/**
+ * Turn a binary CRX ID (like `SignedData.crx_id`) into the usual 32 characters, a-p.
+ */
+export function formatCrxId(binaryId: Uint8Array): string {
+    return Array.from(binaryId, byte => byte.toString(16).padStart(2, "0"))
+        .join("")
+        .split("")
+        .map(x => (parseInt(x, 16) + 0x0a).toString(26))
+        .join("");
+}
+
+/** An extension's files, by their `/`-separated paths relative to the extension's root. Strings are encoded as UTF-8. */
+export type FileMap = Map<string, Uint8Array | string> | {[path: string]: Uint8Array | string};
+
+export interface ZipOptions {
+    /** Make the archive depend only on the files' paths and contents. */
+    reproducible?: boolean;
+    /** The modification time for every entry in reproducible mode. */
+    timestamp?: Date;
+    /** The DEFLATE compression level, from 1 to 9. */
+    compressionLevel?: number;
+}
+
+export const ZIP_EPOCH = new Date(Date.UTC(1980, 0, 1));
+
+export function getReproducibleTimestamp(timestamp?: Date): Date {
+    if (timestamp == undefined) {
+        const epoch = globalThis.process?.env?.SOURCE_DATE_EPOCH;
+        if (epoch && /^\d+$/.test(epoch)) timestamp = new Date(Number(epoch) * 1000);
+    }
+    if (timestamp == undefined || timestamp < ZIP_EPOCH) return ZIP_EPOCH;
+    return timestamp;
+}
+
+/**
+ * Add files to a ZIP archive in the order given, with fixed timestamps and permissions in reproducible mode.
+ */
+export function addToZip(zip: JSZip, files: Iterable<[string, Uint8Array | string | NodeJS.ReadableStream]>, options: ZipOptions) {
+    const date = options.reproducible ? getReproducibleTimestamp(options.timestamp) : undefined;
+    for (const [rp, data] of files) {
+        if (options.reproducible) {
+            // Folders that JSZip makes by itself get the current time, so make them here instead
+            const parts = rp.split("/");
+            for (let i = 1; i < parts.length; i++) {
+                const folder = parts.slice(0, i).join("/") + "/";
+                if (!zip.files[folder]) zip.file(folder, null, {dir: true, date, unixPermissions: 0o755, createFolders: false});
+            }
+            zip.file(rp, data, {date, unixPermissions: 0o644, createFolders: false});
+        } else {
+            zip.file(rp, data);
+        }
+    }
+}
+
+export function getZipOptions(options: ZipOptions): Omit<JSZip.JSZipGeneratorOptions, "type"> {
+    const compressionLevel = options.compressionLevel ?? (options.reproducible ? 9 : undefined);
+    return {
+        compression: "DEFLATE",
+        compressionOptions: compressionLevel == undefined ? null : {level: compressionLevel},
+        platform: options.reproducible ? "UNIX" : "DOS"
+    };
+}
+
+/**
+ * Unpack a CRX file and extract its contents as ZIP data.
+ * 
+ * @param crx The CRX to be unpacked.
+ */
+export function unpack(crx: Uint8Array): {
+    /** The ZIP data. */
+    archive: Uint8Array,
+    /** The CRX format version. */
+    crxVersion: 2,
+    /** The extension's public key. */
+    key: Uint8Array,
+    /** The signature over the contents of the extension. */
+    sign: Uint8Array
+} | {
+    /** The ZIP data. */
+    archive: Uint8Array,
+    /** The CRX format version. */
+    crxVersion: 3,
+    /** The header for the CRX file, for signatures and things. */
+    header: CrxFileHeader
+} {
+    const dv = new DataView(crx.buffer, crx.byteOffset, crx.byteLength);
+    const crxVersion = readCrxPrelude(dv);
+    if (crxVersion == 2) {
+        if (crx.length < 16) throw truncated(16, crx.length);
+        const keyLength = dv.getUint32(8, true);
+        const signLength = dv.getUint32(12, true);
+        if (crx.length < 16 + keyLength + signLength) throw truncated(16 + keyLength + signLength, crx.length);
+        return {
+            archive: crx.slice(16 + keyLength + signLength),
+            crxVersion: 2,
+            key: crx.slice(16, 16 + keyLength),
+            sign: crx.slice(16 + keyLength, 16 + keyLength + signLength)
+        };
+    } else {
+        if (crx.length < 12) throw truncated(12, crx.length);
+        const headerLength = dv.getUint32(8, true);
+        if (crx.length < 12 + headerLength) throw truncated(12 + headerLength, crx.length);
+        const archive = crx.slice(12 + headerLength);
+        return {archive, crxVersion: 3, header: decodeCrx3Header(crx.slice(12, 12 + headerLength))};
+    }
+}
+
+/**
+ * Check the magic number and version at the start of a CRX file.
+ * 
+ * @param dv A view of at least the first 8 bytes of the file, if it has them.
+ * 
+ * @returns The CRX format version.
+ */
+export function readCrxPrelude(dv: DataView): 2 | 3 {
+    if (dv.byteLength < kSignature.length || !kSignature.every((v, i) => dv.getUint8(i) == v)) {
+        throw new CrxFormatError("BAD_MAGIC", "The file given is not a valid CRX file", {offset: 0});
+    }
+    if (dv.byteLength < 8) throw truncated(8, dv.byteLength);
+    const crxVersion = dv.getUint32(4, true);
+    if (crxVersion != 2 && crxVersion != 3) throw new CrxFormatError("UNSUPPORTED_CRX_VERSION", `CRX version ${crxVersion} is not supported`, {offset: 4});
+    return crxVersion;
+}
+
+/**
+ * The error for a file that ends before its header does.
+ * 
+ * @param needed How many bytes the header needs.
+ * @param length How many bytes the file has.
+ */
+export function truncated(needed: number, length: number): CrxFormatError {
+    return new CrxFormatError("TRUNCATED_HEADER", `The CRX file ends at byte ${length}, but its header needs ${needed} bytes`, {offset: length});
+}
+
+/**
+ * Decode the protobuf header of a CRX3 file, which starts at byte 12.
+ */
+export function decodeCrx3Header(header: Uint8Array): CrxFileHeader {
+    try {
+        return crx3.CrxFileHeader.read(new Pbf(header));
+    } catch (e) {
+        throw new CrxFormatError("INVALID_HEADER", "The CRX3 header could not be decoded", {offset: 12, cause: e});
+    }
+}
+
+/**
+ * Parse the text of `manifest.json`.
+ * 
+ * @param text The manifest's text.
+ * @param path Where the manifest came from, for errors.
+ * 
+ * @returns The parsed manifest. Throws a `ManifestError` if it isn't valid JSON.
+ */
+export function parseManifest(text: string, path = "manifest.json"): ChromeManifest {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        const position = /position (\d+)/.exec(`${e}`)?.[1];
+        throw new ManifestError("MANIFEST_INVALID_JSON", `${path} is not valid JSON: ${e instanceof Error ? e.message : e}`, {path, offset: position === undefined ? undefined : Number(position), cause: e});
+    }
+}
+
+/**
+ * Read and parse the `manifest.json` at the root of a ZIP archive.
+ * 
+ * @returns The parsed manifest. Throws a `ManifestError` if it's missing or isn't valid JSON.
+ */
+export async function readArchiveManifest(zip: JSZip): Promise<ChromeManifest> {
+    const file = zip.file("manifest.json");
+    if (!file) throw new ManifestError("MANIFEST_MISSING", "Manifest file not found", {path: "manifest.json"});
+    return parseManifest(await file.async("string"));
+}
+
+/**
+ * Find the folder that an extension's files are in: the root, or else a single top-level folder with a `manifest.json` in it, like in a ZIP file made by compressing the extension's folder itself.
+ * macOS's `__MACOSX` folder is ignored.
+ * 
+ * @param paths The paths of every file, separated with `/`.
+ * 
+ * @returns The prefix to remove from the paths, like `extension/`, or `""` if the files are already at the root. Throws a `ManifestError` if there's no manifest in either place.
+ */
+export function findManifestRoot(paths: string[]): string {
+    const files = paths.filter(path => !path.startsWith("__MACOSX/"));
+    if (files.includes("manifest.json")) return "";
+    const roots = files.filter(path => /^[^/]+\/manifest\.json$/.test(path)).map(path => path.slice(0, -"manifest.json".length));
+    if (roots.length == 1 && files.every(path => path.startsWith(roots[0]))) return roots[0];
+    throw new ManifestError("MANIFEST_MISSING", roots.length ? `Manifest file not found at the root, or in a folder with every other file (found ${roots.map(root => root + "manifest.json").join(", ")})` : "Manifest file not found", {path: "manifest.json"});
+}
+
+/**
+ * Move the entries of a ZIP archive out of the folder that `findManifestRoot` finds, leaving out anything else.
+ * 
+ * @returns The new archive, or `undefined` if the files are already at the root.
+ */
+export async function rerootZip(zip: JSZip): Promise<JSZip | undefined> {
+    const root = findManifestRoot(Object.values(zip.files).filter(file => !file.dir).map(file => file.name));
+    if (!root) return undefined;
+    const rerooted = new JSZip();
+    for (const file of Object.values(zip.files)) {
+        if (file.dir || !file.name.startsWith(root)) continue;
+        rerooted.file(file.name.slice(root.length), await file.async("uint8array"), {date: file.date, unixPermissions: file.unixPermissions, dosPermissions: file.dosPermissions});
+    }
+    return rerooted;
+}
+
+/**
+ * Write a ZIP archive that was loaded and then changed, keeping the kind of permissions its entries had.
+ */
+export function regenerateZip(zip: JSZip): Promise<Uint8Array> {
+    return zip.generateAsync({
+        type: "uint8array",
+        compression: "DEFLATE",
+        platform: Object.values(zip.files).some(entry => entry.unixPermissions != null) ? "UNIX" : "DOS"
+    });
+}
+
+/**
+ * Zip an extension's files from memory.
+ * 
+ * Entries are added in order of their paths. With `reproducible`, the archive only depends on the files' paths and contents.
+ * If every file is in one folder with the manifest, like `dist/manifest.json`, that folder becomes the root.
+ * 
+ * @param files The extension's files.
+ * @param options How to write the archive.
+ */
+export async function packFiles(files: FileMap, options: ZipOptions = {}): Promise<{
+    /** The zipped contents of the extension. */
+    contents: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}> {
+    let entries = [...files instanceof Map ? files : Object.entries(files)]
+        .map(([path, data]): [string, Uint8Array | string] => [path.replace(/\\/g, "/").replace(/^\.?\//, ""), data])
+        .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    const root = findManifestRoot(entries.map(([path]) => path));
+    if (root) entries = entries.filter(([path]) => path.startsWith(root)).map(([path, data]) => [path.slice(root.length), data]);
+    const manifest = entries.find(([path]) => path == "manifest.json")![1];
+    
+    const zip = new JSZip();
+    addToZip(zip, entries, options);
+    return {
+        contents: await zip.generateAsync({...getZipOptions(options), type: "uint8array"}),
+        manifest: parseManifest(typeof manifest == "string" ? manifest : new TextDecoder().decode(manifest))
+    };
+}
@@ -0,0 +1,196 @@
+import { OptionError } from "./errors";
+
+/**
+ * The update URL of the Chrome Web Store, for extensions that aren't self-hosted.
+ * @constant
+ */
+export const CHROME_WEB_STORE_UPDATE_URL = "https://clients2.google.com/service/update2/crx";
+
+export interface ExtensionDeployment {
+    /** The extension's ID. */
+    id: string;
+    /** Where the CRX file is, as given to `pack`. A path or `file:` URL is installed from the machine by Linux external extensions; anything else means the extension is self-hosted, so `updateUrl` is needed. */
+    crxUrl?: string;
+    /** The extension's version, for Linux external extensions that are installed from the machine. */
+    extVersion?: string;
+    /** The URL of the extension's updates XML file (not the CRX file), which `pack` doesn't know. Defaults to the Chrome Web Store's, unless `crxUrl` is a link. */
+    updateUrl?: string;
+    /** How Chrome should install the extension, for the `ExtensionSettings` policy. Defaults to `"force_installed"`. */
+    installationMode?: "force_installed" | "normal_installed" | "allowed" | "blocked" | "removed";
+}
+
+export interface PolicyFileOptions {
+    /** Which policy to set. Defaults to `"ExtensionInstallForcelist"`. */
+    policy?: "ExtensionInstallForcelist" | "ExtensionSettings";
+}
+
+export interface MobileConfigOptions extends PolicyFileOptions {
+    /** The profile's identifier, in reverse-DNS style. Defaults to `com.google.Chrome.extensions`. */
+    identifier?: string;
+    /** The profile's name, as shown in System Settings. */
+    displayName?: string;
+    /** The organization that made the profile. */
+    organization?: string;
+    /** The UUID of the profile. Random by default; give the same one again to replace an installed profile. */
+    uuid?: string;
+    /** The UUID of the Chrome payload inside the profile. Random by default. */
+    payloadUuid?: string;
+}
+
+function escapeXML(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * The path of a CRX file on the machine, if `crxUrl` is a path or a `file:` URL rather than a link to download it from.
+ */
+function getLocalCrxPath(crxUrl: string | undefined): string | undefined {
+    if (crxUrl == undefined) return undefined;
+    if (/^file:/i.test(crxUrl)) return decodeURIComponent(new URL(crxUrl).pathname);
+    return /^[a-z][a-z0-9+.-]*:/i.test(crxUrl) ? undefined : crxUrl;
+}
+
+function getUpdateUrl(extension: ExtensionDeployment): string {
+    if (extension.updateUrl != undefined) return extension.updateUrl;
+    if (extension.crxUrl != undefined && getLocalCrxPath(extension.crxUrl) == undefined) {
+        throw new OptionError("MISSING_DEPENDENCY", `updateUrl must be defined for ${extension.id}, since it's hosted at ${extension.crxUrl} rather than on the Chrome Web Store`, {field: "updateUrl"});
+    }
+    return CHROME_WEB_STORE_UPDATE_URL;
+}
+
+function getForcelist(extensions: ExtensionDeployment[]): string[] {
+    return extensions.map(extension => `${extension.id};${getUpdateUrl(extension)}`);
+}
+
+function getExtensionSettings(extensions: ExtensionDeployment[]): {[id: string]: {installation_mode: string, update_url?: string}} {
+    return Object.fromEntries(extensions.map(extension => {
+        const installationMode = extension.installationMode ?? "force_installed";
+        const needsUpdateUrl = installationMode == "force_installed" || installationMode == "normal_installed";
+        return [extension.id, {
+            installation_mode: installationMode,
+            update_url: needsUpdateUrl ? getUpdateUrl(extension) : extension.updateUrl
+        }];
+    }));
+}
+
+/**
+ * Generate a policy file with the `ExtensionInstallForcelist` policy, which installs extensions and stops users from removing them.
+ * On Linux, it goes in `/etc/opt/chrome/policies/managed/`.
+ * 
+ * @param extensions The extensions to install.
+ * 
+ * @returns The policy JSON text
+ */
+export function generateInstallForcelistPolicy(extensions: ExtensionDeployment[]): string {
+    return JSON.stringify({ExtensionInstallForcelist: getForcelist(extensions)}, null, 2);
+}
+
+/**
+ * Generate a policy file with the `ExtensionSettings` policy, which sets how each extension can be installed.
+ * On Linux, it goes in `/etc/opt/chrome/policies/managed/`.
+ * 
+ * @param extensions The extensions to configure.
+ * 
+ * @returns The policy JSON text
+ */
+export function generateExtensionSettingsPolicy(extensions: ExtensionDeployment[]): string {
+    return JSON.stringify({ExtensionSettings: getExtensionSettings(extensions)}, null, 2);
+}
+
+/**
+ * Generate the file that installs an extension for every user on Linux, which goes in `/usr/share/google-chrome/extensions/<id>.json`.
+ * 
+ * If `crxUrl` is a path or a `file:` URL, Chrome installs the CRX file from the machine, which needs `extVersion`. Otherwise, it downloads the extension from `updateUrl`.
+ * 
+ * @param extension The extension to install.
+ * 
+ * @returns The JSON text
+ */
+export function generateExternalExtensionJSON(extension: ExtensionDeployment): string {
+    const crxPath = getLocalCrxPath(extension.crxUrl);
+    if (crxPath != undefined) {
+        if (extension.extVersion == undefined) throw new OptionError("MISSING_DEPENDENCY", "extVersion must be defined to install from a crxUrl on the machine", {field: "extVersion"});
+        return JSON.stringify({external_crx: crxPath, external_version: extension.extVersion}, null, 2);
+    }
+    return JSON.stringify({external_update_url: getUpdateUrl(extension)}, null, 2);
+}
+
+/**
+ * Generate a Windows `.reg` file that sets extension policies for Chrome on the whole machine.
+ * 
+ * @param extensions The extensions to install or configure.
+ * @param options Which policy to set.
+ * 
+ * @returns The text of the `.reg` file, with Windows line endings.
+ */
+export function generateRegistryFile(extensions: ExtensionDeployment[], options: PolicyFileOptions = {}): string {
+    const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"");
+    const lines = ["Windows Registry Editor Version 5.00", ""];
+    if (options.policy == "ExtensionSettings") {
+        lines.push(
+            "[HKEY_LOCAL_MACHINE\\SOFTWARE\\Policies\\Google\\Chrome]",
+            `"ExtensionSettings"="${escape(JSON.stringify(getExtensionSettings(extensions)))}"`
+        );
+    } else {
+        lines.push(
+            "[HKEY_LOCAL_MACHINE\\SOFTWARE\\Policies\\Google\\Chrome\\ExtensionInstallForcelist]",
+            ...getForcelist(extensions).map((entry, i) => `"${i + 1}"="${escape(entry)}"`)
+        );
+    }
+    return lines.join("\r\n") + "\r\n";
+}
+
+function toPlist(value: unknown, indent: string): string {
+    if (Array.isArray(value)) {
+        return `${indent}<array>\n${value.map(item => toPlist(item, indent + "\t")).join("")}${indent}</array>\n`;
+    }
+    if (typeof value == "object" && value != null) {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+        return `${indent}<dict>\n${entries.map(([key, item]) => `${indent}\t<key>${escapeXML(key)}</key>\n${toPlist(item, indent + "\t")}`).join("")}${indent}</dict>\n`;
+    }
+    if (typeof value == "number") return `${indent}<integer>${value}</integer>\n`;
+    if (typeof value == "boolean") return `${indent}<${value}/>\n`;
+    return `${indent}<string>${escapeXML(`${value}`)}</string>\n`;
+}
+
+/**
+ * Generate a macOS configuration profile (`.mobileconfig`) that sets extension policies for Chrome.
+ * 
+ * @param extensions The extensions to install or configure.
+ * @param options Which policy to set, and how to describe the profile.
+ * 
+ * @returns The text of the `.mobileconfig` file, which is an XML property list.
+ */
+export function generateMobileConfig(extensions: ExtensionDeployment[], options: MobileConfigOptions = {}): string {
+    const identifier = options.identifier ?? "com.google.Chrome.extensions";
+    const profile = {
+        PayloadContent: [{
+            PayloadType: "com.google.Chrome",
+            PayloadVersion: 1,
+            PayloadIdentifier: `${identifier}.chrome`,
+            PayloadUUID: (options.payloadUuid ?? crypto.randomUUID()).toUpperCase(),
+            PayloadEnabled: true,
+            PayloadDisplayName: "Google Chrome",
+            ...options.policy == "ExtensionSettings"
+                ? {ExtensionSettings: getExtensionSettings(extensions)}
+                : {ExtensionInstallForcelist: getForcelist(extensions)}
+        }],
+        PayloadType: "Configuration",
+        PayloadVersion: 1,
+        PayloadIdentifier: identifier,
+        PayloadUUID: (options.uuid ?? crypto.randomUUID()).toUpperCase(),
+        PayloadDisplayName: options.displayName ?? "Chrome extensions",
+        PayloadOrganization: options.organization,
+        PayloadScope: "System"
+    };
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+${toPlist(profile, "")}</plist>
+`;
+}
@@ -0,0 +1,138 @@
+/**
+ * The errors that pack-crx throws. Each has a stable `code` to check instead of its message, and whatever is known about where it happened.
+ * This module doesn't use Node, so `pack-crx/web` throws the same errors.
+ */
+
+export type ManifestErrorCode =
+    /** There's no `manifest.json` at the root of the extension. */
+    | "MANIFEST_MISSING"
+    /** `manifest.json` isn't valid JSON. */
+    | "MANIFEST_INVALID_JSON"
+    /** The manifest has errors, or a field that something else needs is missing or wrong. */
+    | "MANIFEST_INVALID"
+    /** The manifest's `key` is for a different ID than the key the extension is signed with. */
+    | "MANIFEST_KEY_MISMATCH";
+
+export type CrxFormatErrorCode =
+    /** The file doesn't start with `Cr24`, so it isn't a CRX file. */
+    | "BAD_MAGIC"
+    /** The CRX format version isn't one that this library can read or write. */
+    | "UNSUPPORTED_CRX_VERSION"
+    /** The file ends before its header does. */
+    | "TRUNCATED_HEADER"
+    /** The CRX3 header couldn't be decoded, or is missing something it needs. */
+    | "INVALID_HEADER";
+
+export type KeyErrorCode =
+    /** The key isn't PEM, DER or a JSON Web Key that could be read. */
+    | "KEY_PARSE_FAILED"
+    /** The key is neither RSA nor ECDSA P-256, or can't be used for what was asked. */
+    | "KEY_UNSUPPORTED"
+    /** The key is encrypted, but no passphrase was given. */
+    | "KEY_PASSPHRASE_REQUIRED"
+    /** The passphrase didn't decrypt the key. */
+    | "KEY_PASSPHRASE_WRONG"
+    /** The key's file or environment variable doesn't exist. */
+    | "KEY_NOT_FOUND"
+    /** The CRX file is already signed with this key. */
+    | "KEY_ALREADY_USED";
+
+export type ArchiveErrorCode =
+    /** A ZIP entry would be written outside of the folder it's extracted into, or is a symbolic link. */
+    | "UNSAFE_ARCHIVE_ENTRY"
+    /** A file to be packed looks like a private key. */
+    | "PRIVATE_KEY_IN_CONTENTS";
+
+export type OptionErrorCode =
+    /** An option needed to generate another one wasn't given. */
+    | "MISSING_DEPENDENCY"
+    /** An option has a value that can't be used. */
+    | "INVALID_OPTION";
+
+export type PackCrxErrorCode =
+    | ManifestErrorCode
+    | CrxFormatErrorCode
+    | KeyErrorCode
+    | ArchiveErrorCode
+    | OptionErrorCode
+    /** An updates XML file couldn't be read. */
+    | "UPDATE_XML_INVALID"
+    /** An operation ran out of time. */
+    | "TIMEOUT";
+
+export interface PackCrxErrorContext {
+    /** The file (or ZIP entry) that the error is about. */
+    path?: string;
+    /** The byte offset in the file where the error was found. */
+    offset?: number;
+    /** The option or manifest field that the error is about, like `crxUrl` or `background.service_worker`. */
+    field?: string;
+    /** The error that caused this one. */
+    cause?: unknown;
+}
+
+export class PackCrxError extends Error {
+    /** What went wrong. Unlike the message, this doesn't change between versions. */
+    readonly code: PackCrxErrorCode;
+    /** The file (or ZIP entry) that the error is about. */
+    readonly path?: string;
+    /** The byte offset in the file where the error was found. */
+    readonly offset?: number;
+    /** The option or manifest field that the error is about. */
+    readonly field?: string;
+    
+    constructor(code: PackCrxErrorCode, message: string, context: PackCrxErrorContext = {}) {
+        super(message, context.cause === undefined ? undefined : {cause: context.cause});
+        this.name = new.target.name;
+        this.code = code;
+        if (context.path !== undefined) this.path = context.path;
+        if (context.offset !== undefined) this.offset = context.offset;
+        if (context.field !== undefined) this.field = context.field;
+    }
+}
+
+/** The extension's manifest is missing or wrong. */
+export class ManifestError extends PackCrxError {
+    declare readonly code: ManifestErrorCode;
+    
+    constructor(code: ManifestErrorCode, message: string, context?: PackCrxErrorContext) {
+        super(code, message, context);
+    }
+}
+
+/** A CRX file couldn't be read. */
+export class CrxFormatError extends PackCrxError {
+    declare readonly code: CrxFormatErrorCode;
+    
+    constructor(code: CrxFormatErrorCode, message: string, context?: PackCrxErrorContext) {
+        super(code, message, context);
+    }
+}
+
+/** A key couldn't be loaded or used. */
+export class KeyError extends PackCrxError {
+    declare readonly code: KeyErrorCode;
+    
+    constructor(code: KeyErrorCode, message: string, context?: PackCrxErrorContext) {
+        super(code, message, context);
+    }
+}
+
+/** The files of an extension, or of its ZIP archive, can't be packed or extracted safely. */
+export class ArchiveError extends PackCrxError {
+    declare readonly code: ArchiveErrorCode;
+    
+    constructor(code: ArchiveErrorCode, message: string, context?: PackCrxErrorContext) {
+        super(code, message, context);
+    }
+}
+
+/** The options given don't work together. */
+export class OptionError extends PackCrxError {
+    declare readonly code: OptionErrorCode;
+    
+    constructor(code: OptionErrorCode, message: string, context?: PackCrxErrorContext) {
+        super(code, message, context);
+    }
+}
+
@@ -1,4 +1,8 @@
 import type NodeRSA from "node-rsa";
+import type { Readable, Writable } from "node:stream";
+import type { Server } from "node:http";
+import type { JsonWebKey } from "node:crypto";
+import type { EventEmitter } from "node:events";
 
 interface ChromeBaseManifest {
     // Required keys
@@ -16,6 +20,19 @@ interface ChromeBaseManifest {
         service_worker?: string;
         type?: "module";
     };
+    /** Settings for other browsers, which Chrome ignores. Firefox uses `gecko.id` as the add-on's ID. */
+    browser_specific_settings?: {
+        gecko?: {
+            id?: string;
+            strict_min_version?: string;
+            strict_max_version?: string;
+            update_url?: string;
+        };
+        gecko_android?: {
+            strict_min_version?: string;
+            strict_max_version?: string;
+        };
+    };
     chrome_settings_overrides?: {
         alternate_urls?: string[];
         encoding?: string;
@@ -108,7 +125,9 @@ interface ChromeBaseManifest {
         pages: string[];
     };
     short_name?: string;
-    side_panel?: string;
+    side_panel?: {
+        default_path?: string;
+    };
     storage?: {
         managed_schema?: string;
     };
@@ -161,6 +180,11 @@ interface ChromeBaseManifest {
 
 export type ChromeMV2Manifest = ChromeBaseManifest & {
     manifest_version: 2;
+    background?: {
+        scripts?: string[];
+        page?: string;
+        persistent?: boolean;
+    };
     browser_action?: {
         default_icon?: {[x: `${number}`]: string};
         default_title?: string;
@@ -195,20 +219,246 @@ export interface AsymmetricKeyProof {
     signature?: Uint8Array;
 }
 
+/** The kinds of keys that can sign an extension. ECDSA keys must use the P-256 curve, and can only sign CRX3 files. */
+export type KeyAlgorithm = "rsa" | "ecdsa";
+
 export function packCrx2(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array, rsa?: NodeRSA): Uint8Array;
+export interface CrxSigner {
+    /** The signer's private key. This can be an RSA key or an ECDSA P-256 key. */
+    privateKey: Uint8Array;
+    /** The signer's public key. Generated from `privateKey` if not given. */
+    publicKey?: Uint8Array;
+    /** The instance of NodeRSA to use for this signer. */
+    rsa?: NodeRSA;
+}
 export function packCrx3(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array, rsa?: NodeRSA): Uint8Array;
+export function packCrx3(signers: CrxSigner[], contents: Uint8Array, idSigner?: number): Uint8Array;
+export function packCrx3Stream(privateKey: Uint8Array, publicKey: Uint8Array, archive: string, output: Writable | WritableStream<Uint8Array>): Promise<void>;
+export function addSignature(crx: Uint8Array, privateKey: Uint8Array, rsa?: NodeRSA): Uint8Array;
+export interface ResignOptions {
+    /** The private key to sign with. This can be an RSA key or an ECDSA P-256 key (for CRX3 only). */
+    privateKey: Uint8Array;
+    /** The instance of NodeRSA to use, if any. */
+    rsa?: NodeRSA;
+    /** The CRX format version to write. Defaults to 3, so CRX2 files are upgraded. */
+    crxVersion?: number;
+    /**
+     * What to do with the `key` field of `manifest.json`, which decides the ID of the extension when it's loaded unpacked.
+     * `"keep"` (the default) leaves the archive untouched, `"update"` sets it to the new public key, and `"remove"` deletes it.
+     */
+    manifestKey?: "keep" | "update" | "remove";
+}
+export function resign(crx: Uint8Array, options: ResignOptions): Promise<{
+    /** The re-signed CRX file. */
+    crx: Uint8Array,
+    /** The CRX format version of the re-signed file. */
+    crxVersion: number,
+    /** The extension's ID before re-signing, if it could be found. */
+    oldId: string | undefined,
+    /** The extension's new ID. */
+    newId: string
+}>;
+export function getKeyAlgorithm(key: Uint8Array | string, type: "private" | "public"): KeyAlgorithm;
 export function generateCrxId(publicKey: Uint8Array): string;
-export function packContents(where: string): Promise<{
+export function generateManifestKey(key: Uint8Array, type?: "private" | "public"): string;
+export function generateCrxIdFromManifestKey(manifestKey: string): string;
+/** A JSON merge patch for a manifest: objects are merged, `null` removes a field, and anything else (including arrays) replaces it. */
+export type ManifestPatch = {[x: string]: unknown};
+/** Changes a file before it's packed. Returns the new contents, `undefined` to leave them as they are, or `null` to leave the file out. */
+export type FileTransform = (path: string, data: Uint8Array) => Uint8Array | string | null | undefined | Promise<Uint8Array | string | null | undefined>;
+export interface PackContentsOptions {
+    /** Glob patterns for the files to pack. If given, files that don't match any of them are left out (except `manifest.json`). */
+    include?: string[];
+    /** Glob patterns for the files to leave out, in gitignore syntax. These are applied after the extension's `.crxignore` file. */
+    exclude?: string[];
+    /** Whether to pack files and folders whose names start with a dot. Defaults to `false`. */
+    dotfiles?: boolean;
+    /** Whether to pack files that look like private keys. Defaults to `false`, which makes packing throw if it finds one. */
+    allowPrivateKeys?: boolean;
+    /**
+     * Whether to make the same files always give the same ZIP archive, byte for byte.
+     * Every entry gets the same timestamp and permissions, and `compressionLevel` defaults to 9.
+     */
+    reproducible?: boolean;
+    /** The timestamp for every entry in reproducible mode. Defaults to `SOURCE_DATE_EPOCH` if it's set, or else 1980-01-01. */
+    timestamp?: Date;
+    /** The DEFLATE compression level, from 1 to 9. */
+    compressionLevel?: number;
+    /** How many files to read at once. Defaults to 16. */
+    concurrency?: number;
+    /** The `key` to set in the packed `manifest.json` (see `generateManifestKey`), or `false` to remove it. The manifest is left as it is by default. */
+    manifestKey?: string | false;
+    /** Changes to make to the packed `manifest.json`: a merge patch, or a function that returns the new manifest. */
+    manifestOverride?: ManifestPatch | ((manifest: ChromeManifest) => ChromeManifest | Promise<ChromeManifest>);
+    /** Increment a part of the packed manifest's `version`, after `manifestOverride`. */
+    bumpVersion?: VersionBump;
+    /** Functions to change or leave out files before they're packed, run in order on every file (including `manifest.json`, after `manifestOverride` and `bumpVersion`). */
+    transforms?: FileTransform[];
+}
+export function packContents(where: string, options?: PackContentsOptions): Promise<{
     /** The ZIP-encoded data. */
     contents: Uint8Array,
     /** The manifest for the extension, parsed as JSON. */
     manifest: ChromeManifest
 }>;
-export function generateUpdateXML(crxId: string, url: string, version: string, minChromeVersion?: string): string;
-export function generatePrivateKey(bits?: number): Uint8Array;
+/** An extension's files, by their `/`-separated paths relative to the extension's root. Strings are encoded as UTF-8. */
+export type FileMap = Map<string, Uint8Array | string> | {[path: string]: Uint8Array | string};
+export function packFiles(files: FileMap, options?: Pick<PackContentsOptions, "reproducible" | "timestamp" | "compressionLevel">): Promise<{
+    /** The zipped contents of the extension. */
+    contents: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}>;
+export function packContentsToFile(where: string, destination: string, options?: PackContentsOptions): Promise<{
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}>;
+export interface FileContentHashes {
+    /** The SHA-256 hash of each block of the file, in base64. An empty file has the hash of one empty block. */
+    block_hashes: string[];
+    /** The size of the blocks, in bytes. */
+    block_size: number;
+    /** The file's path, relative to the extension's root and separated with `/`. */
+    path: string;
+}
+export interface ComputedHashes {
+    /** The hashes of every file, in order of their paths. */
+    file_hashes: FileContentHashes[];
+    /** The version of the format, which is 2. */
+    version: number;
+}
+export interface ContentHashCheck {
+    /** Whether every file matched its hashes, and none were missing or extra. */
+    valid: boolean;
+    /** Files whose contents don't match their hashes. */
+    mismatched: string[];
+    /** Files that have hashes, but aren't in the folder. */
+    missing: string[];
+    /** Files in the folder that don't have hashes. */
+    extra: string[];
+}
+export function computeContentHashes(files: string | FileMap, options?: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "concurrency">): Promise<ComputedHashes>;
+export function checkContentHashes(dir: string, hashes: ComputedHashes, options?: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "concurrency">): Promise<ContentHashCheck>;
+export interface ManifestIssue {
+    /** The manifest key the issue is about, as a dotted path (like `content_scripts.0.js.1`). */
+    field: string;
+    /** What's wrong. */
+    message: string;
+}
+export interface ManifestValidation {
+    /** Whether there were no errors. Warnings don't count. */
+    valid: boolean;
+    /** Problems that will stop Chrome from loading the extension. */
+    errors: ManifestIssue[];
+    /** Problems that Chrome will tolerate, but probably aren't intended. */
+    warnings: ManifestIssue[];
+}
+export function validateManifest(manifest: ChromeManifest, files: Iterable<string>): ManifestValidation;
+export function validateResources(manifest: ChromeManifest, files: Map<string, Uint8Array>): ManifestValidation;
+export interface UpdateCheck {
+    /** The URL where the extension's CRX file is hosted. */
+    codebase?: string;
+    /** The extension's version. */
+    version?: string;
+    /** The minimum Chrome version that the extension can be installed on. */
+    prodversionmin?: string;
+    /** The SHA-256 hash of the CRX file, in hexadecimal. Chrome refuses the download if it doesn't match. */
+    hash_sha256?: string;
+    /** The size of the CRX file, in bytes. */
+    size?: number;
+    /** The status of the update check, like `"ok"` or `"noupdate"`. */
+    status?: string;
+}
+export interface UpdateManifestApp {
+    /** The extension's ID. */
+    appid: string;
+    /** Where to find the extension's latest version. */
+    updatecheck: UpdateCheck;
+}
+export function getCrxHashAndSize(crx: Uint8Array): Pick<UpdateCheck, "hash_sha256" | "size">;
+export function generateUpdateManifest(apps: UpdateManifestApp[]): string;
+export function parseUpdateManifest(xml: string): UpdateManifestApp[];
+export function setUpdateManifestApp(xml: string, app: UpdateManifestApp): string;
+export function generateUpdateXML(crxId: string, url: string, version: string, minChromeVersion?: string, crx?: Uint8Array): string;
+export function compareVersions(a: string, b: string): number;
+export type VersionBump = "major" | "minor" | "patch" | "build";
+export function incrementVersion(version: string, bump: VersionBump): string;
+export function validateGeckoId(manifest: ChromeManifest): string;
+export function packXpi(contents: string | Uint8Array, options?: PackContentsOptions): Promise<{
+    /** The XPI file. */
+    xpi: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The Firefox add-on ID. */
+    geckoId: string
+}>;
+export function generateUpdatesJSON(geckoId: string, url: string, version: string, minFirefoxVersion?: string, xpi?: Uint8Array): string;
+export const CHROME_WEB_STORE_UPDATE_URL: string;
+export interface ExtensionDeployment {
+    /** The extension's ID. */
+    id: string;
+    /** Where the CRX file is, as given to `pack`. A path or `file:` URL is installed from the machine by Linux external extensions; anything else means the extension is self-hosted, so `updateUrl` is needed. */
+    crxUrl?: string;
+    /** The extension's version, for Linux external extensions that are installed from the machine. */
+    extVersion?: string;
+    /** The URL of the extension's updates XML file (not the CRX file), which `pack` doesn't know. Defaults to the Chrome Web Store's, unless `crxUrl` is a link. */
+    updateUrl?: string;
+    /** How Chrome should install the extension, for the `ExtensionSettings` policy. Defaults to `"force_installed"`. */
+    installationMode?: "force_installed" | "normal_installed" | "allowed" | "blocked" | "removed";
+}
+export interface PolicyFileOptions {
+    /** Which policy to set. Defaults to `"ExtensionInstallForcelist"`. */
+    policy?: "ExtensionInstallForcelist" | "ExtensionSettings";
+}
+export interface MobileConfigOptions extends PolicyFileOptions {
+    /** The profile's identifier, in reverse-DNS style. Defaults to `com.google.Chrome.extensions`. */
+    identifier?: string;
+    /** The profile's name, as shown in System Settings. */
+    displayName?: string;
+    /** The organization that made the profile. */
+    organization?: string;
+    /** The UUID of the profile. Random by default; give the same one again to replace an installed profile. */
+    uuid?: string;
+    /** The UUID of the Chrome payload inside the profile. Random by default. */
+    payloadUuid?: string;
+}
+export function generateInstallForcelistPolicy(extensions: ExtensionDeployment[]): string;
+export function generateExtensionSettingsPolicy(extensions: ExtensionDeployment[]): string;
+export function generateExternalExtensionJSON(extension: ExtensionDeployment): string;
+export function generateRegistryFile(extensions: ExtensionDeployment[], options?: PolicyFileOptions): string;
+export function generateMobileConfig(extensions: ExtensionDeployment[], options?: MobileConfigOptions): string;
+export interface HostedExtension {
+    /** The CRX file. */
+    crx: Uint8Array;
+    /** The extension's ID. Read from `crx` if not given. */
+    id?: string | null;
+    /** The extension's version. Read from `manifest` (or `crx`) if not given. */
+    extVersion?: string | null;
+    /** The minimum Chrome version the extension requires. Read from `manifest` (or `crx`) if not given. */
+    minChromeVersion?: string | null;
+    /** The extension's manifest. Only used to find `extVersion` and `minChromeVersion`. */
+    manifest?: {version: string, minimum_chrome_version?: string} | null;
+    /** The path the CRX file is served at. Defaults to `/<id>.crx`. */
+    path?: string;
+}
+export interface UpdateServerOptions {
+    /** The extensions to serve. The objects returned by `pack` can be given directly. */
+    extensions: HostedExtension[];
+    /** The path the updates XML file is served at. Defaults to `/updates.xml`. */
+    updatePath?: string;
+    /** The URL the server can be reached at, for the links to CRX files. Defaults to `http://` and the address that the request was received on, since the `Host` header can be set to anything by the client. */
+    baseUrl?: string;
+}
+export function createUpdateServer(options: UpdateServerOptions): Promise<Server>;
+export function generatePrivateKey(bits?: number, algorithm?: KeyAlgorithm): Uint8Array;
 export function generatePublicKey(privateKey: Uint8Array): Uint8Array;
-export function convertToPem(key: Uint8Array, type: "private" | "public"): string;
-export function convertFromPem(key: string, type: "private" | "public"): Uint8Array;
+export function convertToPem(key: Uint8Array, type: "private" | "public", passphrase?: string): string;
+export function convertFromPem(key: string, type: "private" | "public", passphrase?: string): Uint8Array;
+export function convertToJwk(key: Uint8Array, type: "private" | "public"): JsonWebKey;
+export function convertFromJwk(key: JsonWebKey | string, type: "private" | "public"): Uint8Array;
+export function importKey(key: Uint8Array | string, type: "private" | "public", passphrase?: string): Uint8Array;
+export function loadKeyFromEnv(name: string, type: "private" | "public", passphrase?: string): Uint8Array;
+export function keyFingerprint(key: Uint8Array | string, type?: "private" | "public", passphrase?: string): string;
 export function unpack(crx: Uint8Array): {
     /** The ZIP data. */
     archive: Uint8Array,
@@ -226,16 +476,271 @@ export function unpack(crx: Uint8Array): {
     /** The header for the CRX file, for signatures and things. */
     header: CrxFileHeader
 };
-export interface PackInput {
-    /** The ZIP archive of the contents of the extension, or a path to the folder containing the extension. */
-    contents?: Uint8Array | string;
-    /** The private key for the extension, or a path to it. */
+export function unpackStream(source: string | Readable | ReadableStream<Uint8Array>): Promise<{
+    /** The ZIP data. */
+    archive: Readable,
+    /** The CRX format version. */
+    crxVersion: 2,
+    /** The extension's public key. */
+    key: Uint8Array,
+    /** The signature over the contents of the extension. */
+    sign: Uint8Array
+} | {
+    /** The ZIP data. */
+    archive: Readable,
+    /** The CRX format version. */
+    crxVersion: 3,
+    /** The header for the CRX file, for signatures and things. */
+    header: CrxFileHeader
+}>;
+export interface ProofVerification {
+    /** The kind of signature this proof holds. CRX2 files only ever have one `pkcs1_sha1` proof. */
+    algorithm: "sha256_with_rsa" | "sha256_with_ecdsa" | "pkcs1_sha1";
+    /** The public key from the proof. */
+    publicKey: Uint8Array;
+    /** The extension ID derived from the proof's public key. */
+    id: string;
+    /** Whether the signature matched. */
+    valid: boolean;
+    /** Why the proof failed, if it did. */
+    error?: string;
+}
+export interface VerifyResult {
+    /** Whether every proof passed and the file's ID is backed by one of them. */
+    valid: boolean;
+    /** The CRX format version. */
+    crxVersion: 2 | 3;
+    /** The extension ID, derived from the key that the file's `crx_id` points to (or the only key, for CRX2). */
+    id?: string;
+    /** Every signature in the file, in the order they appear in the header. */
+    proofs: ProofVerification[];
+    /** Why the file failed to verify, if it did. */
+    errors: string[];
+}
+export function verify(crx: Uint8Array): VerifyResult;
+export interface InspectedFile {
+    /** The file's path, relative to the extension's root. */
+    path: string;
+    /** The file's size, in bytes, after decompressing. */
+    size: number;
+    /** The SHA-256 hash of the file, in hexadecimal. */
+    sha256: string;
+}
+export interface CrxInspection {
+    /** The extension's ID. */
+    id: string | undefined;
+    /** The fingerprint of the key that the ID comes from, as given by `keyFingerprint`. */
+    fingerprint: string | undefined;
+    /** The CRX format version. */
+    crxVersion: 2 | 3;
+    /** Whether every signature in the file is valid, as checked by `verify`. */
+    valid: boolean;
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest;
+    /** Every file in the extension, in order of their paths. */
+    files: InspectedFile[];
+}
+export interface ChangedFile {
+    /** The file's path, relative to the extension's root. */
+    path: string;
+    /** The file before the change. */
+    old: InspectedFile;
+    /** The file after the change. */
+    new: InspectedFile;
+}
+export interface ManifestChange {
+    /** The changed field, like `background.service_worker`. Arrays are compared as a whole. */
+    field: string;
+    /** The field's old value, or `undefined` if it was added. */
+    old: unknown;
+    /** The field's new value, or `undefined` if it was removed. */
+    new: unknown;
+}
+export interface PermissionEscalation {
+    /** Where the new permission is in the new manifest, like `permissions` or `content_scripts.0.matches`. */
+    field: string;
+    /** The permission or match pattern that the old version didn't have. */
+    permission: string;
+}
+export interface CrxDiff {
+    /** The old extension's ID. */
+    oldId: string | undefined;
+    /** The new extension's ID. If it's different, Chrome treats the new file as a different extension. */
+    newId: string | undefined;
+    /** The old extension's version. */
+    oldVersion: string;
+    /** The new extension's version. */
+    newVersion: string;
+    /** Whether the new version isn't higher than the old one, in which case Chrome won't update to it. */
+    versionRegression: boolean;
+    /** Files that are only in the new extension. */
+    added: InspectedFile[];
+    /** Files that are only in the old extension. */
+    removed: InspectedFile[];
+    /** Files whose contents changed. */
+    changed: ChangedFile[];
+    /** Every field of the manifest that changed. */
+    manifestChanges: ManifestChange[];
+    /** Permissions and host patterns that the old version didn't have. Chrome disables the extension after updating until the user approves them. */
+    permissionEscalations: PermissionEscalation[];
+}
+export function inspect(crx: Uint8Array): Promise<CrxInspection>;
+export function diff(oldCrx: Uint8Array, newCrx: Uint8Array): Promise<CrxDiff>;
+export interface FindKeyProgress {
+    /** How many keys have been generated so far, across every worker. */
+    attempts: number;
+    /** How long the search has taken so far, in milliseconds. */
+    elapsed: number;
+    /** How many keys would be generated on average before finding a match. */
+    expectedAttempts: number;
+}
+export interface FindKeyOptions {
+    /** How many worker threads to generate keys on. Defaults to the number of CPUs. */
+    workers?: number;
+    /** How long to search for, in milliseconds, before giving up. No limit by default. */
+    timeout?: number;
+    /** The kind of key to generate. Defaults to `"ecdsa"`, since EC keys are much faster to generate; use `"rsa"` for CRX2. */
+    keyAlgorithm?: KeyAlgorithm;
+    /** The size of RSA keys to generate. Defaults to 4096. */
+    keySize?: number;
+    /** Stops the search when aborted. */
+    signal?: AbortSignal;
+    /** Called about four times a second while searching. */
+    onProgress?: (progress: FindKeyProgress) => void;
+}
+export function findKeyForIdPrefix(prefix: string, options?: FindKeyOptions): Promise<{
+    /** The private key, in pkcs8-der. */
+    privateKey: Uint8Array,
+    /** The public key, in spki-der. */
+    publicKey: Uint8Array,
+    /** The extension's ID. */
+    id: string,
+    /** How many keys were generated across every worker. */
+    attempts: number
+}>;
+export type ManifestErrorCode = "MANIFEST_MISSING" | "MANIFEST_INVALID_JSON" | "MANIFEST_INVALID" | "MANIFEST_KEY_MISMATCH";
+export type CrxFormatErrorCode = "BAD_MAGIC" | "UNSUPPORTED_CRX_VERSION" | "TRUNCATED_HEADER" | "INVALID_HEADER";
+export type KeyErrorCode = "KEY_PARSE_FAILED" | "KEY_UNSUPPORTED" | "KEY_PASSPHRASE_REQUIRED" | "KEY_PASSPHRASE_WRONG" | "KEY_NOT_FOUND" | "KEY_ALREADY_USED";
+export type ArchiveErrorCode = "UNSAFE_ARCHIVE_ENTRY" | "PRIVATE_KEY_IN_CONTENTS";
+export type OptionErrorCode = "MISSING_DEPENDENCY" | "INVALID_OPTION";
+export type PackCrxErrorCode = ManifestErrorCode | CrxFormatErrorCode | KeyErrorCode | ArchiveErrorCode | OptionErrorCode | "UPDATE_XML_INVALID" | "TIMEOUT";
+export interface PackCrxErrorContext {
+    /** The file (or ZIP entry) that the error is about. */
+    path?: string;
+    /** The byte offset in the file where the error was found. */
+    offset?: number;
+    /** The option or manifest field that the error is about, like `crxUrl` or `background.service_worker`. */
+    field?: string;
+    /** The error that caused this one. */
+    cause?: unknown;
+}
+export class PackCrxError extends Error {
+    /** What went wrong. Unlike the message, this doesn't change between versions. */
+    readonly code: PackCrxErrorCode;
+    /** The file (or ZIP entry) that the error is about. */
+    readonly path?: string;
+    /** The byte offset in the file where the error was found. */
+    readonly offset?: number;
+    /** The option or manifest field that the error is about. */
+    readonly field?: string;
+    constructor(code: PackCrxErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export class ManifestError extends PackCrxError {
+    readonly code: ManifestErrorCode;
+    constructor(code: ManifestErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export class CrxFormatError extends PackCrxError {
+    readonly code: CrxFormatErrorCode;
+    constructor(code: CrxFormatErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export class KeyError extends PackCrxError {
+    readonly code: KeyErrorCode;
+    constructor(code: KeyErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export class ArchiveError extends PackCrxError {
+    readonly code: ArchiveErrorCode;
+    constructor(code: ArchiveErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export class OptionError extends PackCrxError {
+    readonly code: OptionErrorCode;
+    constructor(code: OptionErrorCode, message: string, context?: PackCrxErrorContext);
+}
+export function readFiles(crx: Uint8Array): Promise<{
+    /** The contents of every file in the extension, by their paths relative to its root. */
+    files: Map<string, Uint8Array>,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The extension's ID. */
+    id: string | undefined
+}>;
+export function extract(crx: Uint8Array, outDir: string): Promise<{
+    /** The paths of the extracted files, relative to `outDir`. */
+    files: string[],
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The extension's ID. */
+    id: string | undefined
+}>;
+export interface WatchOptions {
+    /** Where to write the CRX file after each build. */
+    crxPath?: string;
+    /** Where to write the updates XML file after each build. Needs `crxUrl`. */
+    updateXMLPath?: string;
+    /** How long to wait for changes to stop before rebuilding, in milliseconds. Defaults to 100. */
+    debounce?: number;
+}
+export interface WatchInput extends Omit<PackInput, "contents" | "watch">, WatchOptions {
+    /** The path to the folder containing the extension. */
+    contents: string;
+}
+export interface WatchBuild {
+    /** The CRX file. */
+    crx: Uint8Array;
+    /** The extension's ID. */
+    id: string;
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest;
+    /** The updates XML file, if `crxUrl` was given. */
+    updateXML?: string;
+    /** Warnings about the manifest. There are no errors, or the build wouldn't have happened. */
+    manifestValidation: ManifestValidation;
+    /** The files that were added, changed or removed since the last build, or every file for the first one. */
+    changed: string[];
+}
+export interface WatcherEvents {
+    /** A new CRX file was built (and written, if `crxPath` was given). */
+    build: [build: WatchBuild];
+    /** The manifest has errors, so nothing was built. */
+    invalid: [validation: ManifestValidation];
+    /** Something went wrong while building. The watcher keeps going. */
+    error: [error: Error];
+}
+export interface Watcher extends EventEmitter<WatcherEvents> {
+    /** Resolves once the first build is done, or rejects if it failed. A manifest with errors isn't a failure; that's the `invalid` event. */
+    readonly ready: Promise<void>;
+    /** Stop watching. Resolves once any build in progress is done. */
+    close(): Promise<void>;
+}
+export function watch(options: WatchInput): Watcher;
+export interface PackInput extends Omit<PackContentsOptions, "manifestKey"> {
+    /**
+     * The contents of the extension: a path to its folder or to a ZIP file of it, its files (see `packFiles`), or the ZIP archive of them.
+     * If the files in a ZIP archive or file map are all in one folder with the manifest, that folder becomes the root.
+     */
+    contents?: Uint8Array | string | FileMap;
+    /** The private key for the extension, or a path to it (or `env:NAME` to read it from an environment variable). */
     privateKey?: Uint8Array | string | null;
+    /** The passphrase for `privateKey` and `additionalPrivateKeys`, if they're encrypted. */
+    passphrase?: string;
     /** The size of key to generate, if needed. */
     keySize?: number;
-    /** The public key for the extension, or a path to it. */
+    /** The kind of key to generate, if needed. Defaults to `"rsa"`. */
+    keyAlgorithm?: KeyAlgorithm;
+    /** The public key for the extension, or a path to it (or `env:NAME` to read it from an environment variable). */
     publicKey?: Uint8Array | string | null;
-    /** The instance of NodeRSA to use. */
+    /** More private keys (or paths to them) to co-sign the CRX with. The extension's ID still comes from `privateKey`. */
+    additionalPrivateKeys?: (Uint8Array | string)[];
+    /** The instance of NodeRSA to use. This is left unset for ECDSA keys. */
     rsa?: NodeRSA;
     /** The extension's ID. */
     id?: string | null;
@@ -253,9 +758,25 @@ export interface PackInput {
     minChromeVersion?: string | null;
     /** The extension's [manifest](https://developer.chrome.com/docs/extensions/reference/manifest). */
     manifest?: ChromeManifest | null;
+    /** The result of checking the manifest against the packed files. */
+    manifestValidation?: ManifestValidation | null;
+    /** Whether to throw instead of packing if the manifest has errors. Implies `manifestValidation: null`. */
+    failOnInvalidManifest?: boolean;
+    /** The `key` to set in the packed `manifest.json`, or `false` to remove it. With `null`, it's generated from `publicKey`. */
+    manifestKey?: string | false | null;
+    /** The unsigned Firefox XPI file. Generating it checks `browser_specific_settings.gecko.id`. */
+    xpi?: Uint8Array | null;
+    /** The URL to where the XPI file (not the updates.json) will be hosted. */
+    xpiUrl?: string;
+    /** The [updates.json file](https://extensionworkshop.com/documentation/manage/updating-your-extension/) for self-hosting on Firefox. */
+    updatesJSON?: string | null;
+    /** Keep watching `contents` (which must be a path) after packing, and rebuild whenever it changes. The watcher is returned as `watcher`. */
+    watch?: boolean | WatchOptions;
 }
 type SetKeys<A extends object, B extends object> = {[x in keyof A | keyof B]: x extends keyof B ? unknown extends B[x] ? x extends keyof A ? A[x] : never : B[x] : x extends keyof A ? A[x] : never};
 
+type HasKeyPaths<K> = [K] extends [Uint8Array[] | undefined] ? false : true;
+
 export type TransformPack<I extends PackInput> =
     I["privateKey"] extends string ?
         TransformPack<SetKeys<I, {
@@ -266,12 +787,23 @@ export type TransformPack<I extends PackInput> =
         TransformPack<SetKeys<I, {
             publicKey: Uint8Array | undefined;
         }>>
+    : HasKeyPaths<I["additionalPrivateKeys"]> extends true ?
+        TransformPack<SetKeys<I, {
+            additionalPrivateKeys: Uint8Array[];
+        }>>
     : I["updateXML"] extends null ?
         undefined extends I["crxUrl"] ? never : TransformPack<SetKeys<I, {
             updateXML: string;
             id: undefined extends I["id"] ? null : I["id"];
             extVersion: undefined extends I["extVersion"] ? null : I["extVersion"];
             minChromeVersion: undefined extends I["minChromeVersion"] ? null : I["minChromeVersion"];
+            crx: undefined extends I["crx"] ? undefined extends I["contents"] ? I["crx"] : null : I["crx"];
+        }>>
+    : I["updatesJSON"] extends null ?
+        undefined extends I["xpiUrl"] ? never : TransformPack<SetKeys<I, {
+            updatesJSON: string;
+            xpi: undefined extends I["xpi"] ? null : I["xpi"];
+            extVersion: undefined extends I["extVersion"] ? null : I["extVersion"];
         }>>
     : I["extVersion"] extends null ?
         TransformPack<SetKeys<I, {
@@ -283,12 +815,24 @@ export type TransformPack<I extends PackInput> =
             minChromeVersion: string | undefined;
             manifest: undefined extends I["manifest"] ? null : I["manifest"];
         }>>
+    : I["manifestValidation"] extends null ?
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
+            manifestValidation: ManifestValidation;
+            manifest: undefined extends I["manifest"] ? null : I["manifest"];
+        }>>
     : I["manifest"] extends null ?
-        undefined extends I["contents"] ? never
-        : Uint8Array extends I["contents"] ? never
-        : TransformPack<SetKeys<I, {
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
             manifest: ChromeManifest;
         }>>
+    : I["xpi"] extends null ?
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
+            xpi: Uint8Array;
+        }>>
+    : I["manifestKey"] extends null ?
+        TransformPack<SetKeys<I, {
+            manifestKey: string;
+            publicKey: undefined extends I["publicKey"] ? null : I["publicKey"];
+        }>>
     : I["crx"] extends null ?
         undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
             crx: Uint8Array;
@@ -308,13 +852,15 @@ export type TransformPack<I extends PackInput> =
     : I["privateKey"] extends null ?
         TransformPack<SetKeys<I, {
             privateKey: Uint8Array;
-            rsa: NodeRSA;
+            rsa: I["keyAlgorithm"] extends "ecdsa" ? I["rsa"] : NodeRSA;
         }>>
-    : I["contents"] extends string ? 
+    : I["contents"] extends string | FileMap ?
         TransformPack<SetKeys<I, {
             contents: Uint8Array;
             manifest: ChromeManifest;
         }>>
+    : I["watch"] extends true | WatchOptions ?
+        I & {watcher: Watcher}
     : I;
 export function pack<I extends PackInput>(options: I): Promise<TransformPack<I>>;
 export default pack;
\ No newline at end of file
@@ -1,11 +1,31 @@
-import { createHash } from "node:crypto";
+import { createHash, createPrivateKey, createPublicKey, createSign, generateKeyPairSync, sign as cryptoSign, verify as cryptoVerify, type JsonWebKey, type JsonWebKeyInput, type KeyObject, type PrivateKeyInput, type PublicKeyInput } from "node:crypto";
 import Pbf from "pbf";
 import * as crx3 from "./crx3.pb";
 import JSZip from "jszip";
 import fs from "node:fs/promises";
-import { join, relative, resolve } from "node:path";
+import { createReadStream, createWriteStream, watch as watchFs, type FSWatcher } from "node:fs";
+import { Readable, type Writable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { EventEmitter } from "node:events";
 import { Buffer } from "node:buffer";
 import RSA from "node-rsa";
+import { generateUpdateXML, incrementVersion, type VersionBump } from "./update-manifest";
+import { generateUpdatesJSON, packXpi } from "./xpi";
+import { validateResources } from "./resources";
+import { addToZip, CRX_ID_SIZE, decodeCrx3Header, findManifestRoot, formatCrxId, generateCrx3SignedPayload, getZipOptions, kSignature, packFiles, parseManifest, readArchiveManifest, readCrxPrelude, regenerateZip, rerootZip, truncated, unpack, writeCrx3, type AsymmetricKeyProof, type CrxFileHeader, type FileMap } from "./crx-format";
+import { ArchiveError, CrxFormatError, KeyError, ManifestError, OptionError, PackCrxError } from "./errors";
+
+export { packFiles, unpack, type AsymmetricKeyProof, type CrxFileHeader, type FileMap } from "./crx-format";
+
+export * from "./errors";
+export * from "./update-manifest";
+export * from "./update-server";
+export * from "./xpi";
+export * from "./deployment";
+export * from "./inspect";
+export * from "./vanity";
+export * from "./resources";
 
 interface ChromeBaseManifest {
     // Required keys
@@ -23,6 +43,19 @@ interface ChromeBaseManifest {
         service_worker?: string;
         type?: "module";
     };
+    /** Settings for other browsers, which Chrome ignores. Firefox uses `gecko.id` as the add-on's ID. */
+    browser_specific_settings?: {
+        gecko?: {
+            id?: string;
+            strict_min_version?: string;
+            strict_max_version?: string;
+            update_url?: string;
+        };
+        gecko_android?: {
+            strict_min_version?: string;
+            strict_max_version?: string;
+        };
+    };
     chrome_settings_overrides?: {
         alternate_urls?: string[];
         encoding?: string;
@@ -115,7 +148,9 @@ interface ChromeBaseManifest {
         pages: string[];
     };
     short_name?: string;
-    side_panel?: string;
+    side_panel?: {
+        default_path?: string;
+    };
     storage?: {
         managed_schema?: string;
     };
@@ -168,6 +203,11 @@ interface ChromeBaseManifest {
 
 export type ChromeMV2Manifest = ChromeBaseManifest & {
     manifest_version: 2;
+    background?: {
+        scripts?: string[];
+        page?: string;
+        persistent?: boolean;
+    };
     browser_action?: {
         default_icon?: {[x: `${number}`]: string};
         default_title?: string;
@@ -191,50 +231,8 @@ export type ChromeMV3Manifest = ChromeBaseManifest & {
 
 export type ChromeManifest = ChromeMV2Manifest | ChromeMV3Manifest;
 
-export interface CrxFileHeader {
-    sha256_with_rsa?: AsymmetricKeyProof[];
-    sha256_with_ecdsa?: AsymmetricKeyProof[];
-    signed_header_data?: Uint8Array;
-}
-
-export interface AsymmetricKeyProof {
-    public_key?: Uint8Array;
-    signature?: Uint8Array;
-}
-
-/**
- * CRX IDs are 16 bytes long
- * @constant
- */
-const CRX_ID_SIZE = 16;
-
-/**
- * CRX3 uses 32bit numbers in various places,
- * so let's prepare size constant for that.
- * @constant
- */
-const SIZE_BYTES = 4;
-
-/**
- * Used for file format.
- * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
- * @constant
- */
-const kSignature = Uint8Array.from("Cr24", ch => ch.charCodeAt(0));
-
-/**
- * Used for file format.
- * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
- * @constant
- */
-const kVersion = Uint8Array.from([3, 0, 0, 0]);
-
-/**
- * Used for generating package signatures.
- * @see {@link https://github.com/chromium/chromium/blob/master/components/crx_file/crx3.proto}
- * @constant
- */
-const kSignatureContext = Uint8Array.from("CRX3 SignedData\x00", ch => ch.charCodeAt(0));
+/** The kinds of keys that can sign an extension. ECDSA keys must use the P-256 curve, and can only sign CRX3 files. */
+export type KeyAlgorithm = "rsa" | "ecdsa";
 
 /**
  * Pack a CRX2 extension. Chrome stopped supporting these entirely in version 73.0.3683, which released in October of 2017.
@@ -248,11 +246,12 @@ const kSignatureContext = Uint8Array.from("CRX3 SignedData\x00", ch => ch.charCo
  * @deprecated
  */
 export function packCrx2(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array, rsa?: RSA): Uint8Array {
+    if (!rsa && getKeyAlgorithm(privateKey, "private") == "ecdsa") throw new KeyError("KEY_UNSUPPORTED", "CRX2 files can only be signed with RSA keys", {field: "privateKey"});
     rsa ??= new RSA(Buffer.from(privateKey), "pkcs8-private-der");
     rsa.setOptions({signingScheme: "pkcs1-sha1"});
-    const signature = rsa.sign(contents);
+    const signature = rsa.sign(Buffer.from(contents));
     const length = 16 /* magic + version + key length + sign length */ + publicKey.length + signature.length;
-    const result = new Uint8Array(length);
+    const result = new Uint8Array(length + contents.length);
     result.set(kSignature, 0);
     const dv = new DataView(result.buffer);
     dv.setUint32(4, 2, true);
@@ -264,51 +263,145 @@ export function packCrx2(privateKey: Uint8Array, publicKey: Uint8Array, contents
     return result;
 }
 
+export interface CrxSigner {
+    /** The signer's private key. This can be an RSA key or an ECDSA P-256 key. */
+    privateKey: Uint8Array;
+    /** The signer's public key. Generated from `privateKey` if not given. */
+    publicKey?: Uint8Array;
+    /** The instance of NodeRSA to use for this signer. */
+    rsa?: RSA;
+}
+
 /**
  * Pack a CRX3 extension.
  * 
- * @param privateKey The extension's private key.
+ * @param privateKey The extension's private key. This can be an RSA key or an ECDSA P-256 key.
  * @param publicKey The extension's public key.
  * @param contents The zipped contents of the extension. This should contain a `manifest.json` file directly inside it, but we don't validate that in this function.
  * 
  * @returns The contents of the packaged extension.
  */
-export function packCrx3(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array, rsa?: RSA): Uint8Array {
-    let pb = new Pbf();
+export function packCrx3(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array, rsa?: RSA): Uint8Array;
+/**
+ * Pack a CRX3 extension, signed by several keys.
+ * 
+ * @param signers The keys to sign the extension with. Each one gets its own proof in the header.
+ * @param contents The zipped contents of the extension. This should contain a `manifest.json` file directly inside it, but we don't validate that in this function.
+ * @param idSigner The index of the signer whose key defines the extension's ID. Defaults to the first one.
+ * 
+ * @returns The contents of the packaged extension.
+ */
+export function packCrx3(signers: CrxSigner[], contents: Uint8Array, idSigner?: number): Uint8Array;
+export function packCrx3(privateKeyOrSigners: Uint8Array | CrxSigner[], publicKeyOrContents: Uint8Array, contentsOrIdSigner?: Uint8Array | number, rsa?: RSA): Uint8Array {
+    let signers: CrxSigner[], contents: Uint8Array, idSigner = 0;
+    if (Array.isArray(privateKeyOrSigners)) {
+        signers = privateKeyOrSigners;
+        contents = publicKeyOrContents;
+        idSigner = (contentsOrIdSigner as number | undefined) ?? 0;
+    } else {
+        signers = [{privateKey: privateKeyOrSigners, publicKey: publicKeyOrContents, rsa}];
+        contents = contentsOrIdSigner as Uint8Array;
+    }
+    if (signers[idSigner] == undefined) throw new OptionError("INVALID_OPTION", "idSigner must refer to one of the signers", {field: "idSigner"});
+    const publicKeys = signers.map(signer => signer.publicKey ?? (signer.rsa ? Uint8Array.from(signer.rsa.exportKey("pkcs8-public-der")) : generatePublicKey(signer.privateKey)));
+    
+    const pb = new Pbf();
+    crx3.SignedData.write({
+        crx_id: generateBinaryCrxId(publicKeys[idSigner])
+    }, pb);
+    const signedHeaderData = pb.finish();
+    const payload = generateCrx3SignedPayload(signedHeaderData, contents);
+    
+    const header: CrxFileHeader = {sha256_with_rsa: [], sha256_with_ecdsa: [], signed_header_data: signedHeaderData};
+    signers.forEach((signer, i) => {
+        const algorithm = signer.rsa ? "rsa" : getKeyAlgorithm(signer.privateKey, "private");
+        (algorithm == "ecdsa" ? header.sha256_with_ecdsa : header.sha256_with_rsa)!.push({
+            public_key: publicKeys[i],
+            signature: generateCrx3Signature(signer.privateKey, payload, signer.rsa)
+        });
+    });
+    
+    return writeCrx3(header, contents);
+}
+
+/**
+ * Pack a CRX3 extension from a ZIP file, streaming the result into `output`.
+ * 
+ * The archive is read twice (once to sign it, and once to copy it after the header), so it is never held in memory all at once.
+ * 
+ * @param privateKey The extension's private key. This can be an RSA key or an ECDSA P-256 key.
+ * @param publicKey The extension's public key.
+ * @param archive The path to the zipped contents of the extension, such as one written by `packContentsToFile`.
+ * @param output Where to write the CRX file. This can be a Node `Writable` or a web `WritableStream`, and is closed at the end.
+ */
+export async function packCrx3Stream(privateKey: Uint8Array, publicKey: Uint8Array, archive: string, output: Writable | WritableStream<Uint8Array>): Promise<void> {
+    const pb = new Pbf();
     crx3.SignedData.write({
         crx_id: generateBinaryCrxId(publicKey)
     }, pb);
     const signedHeaderData = pb.finish();
     
-    const signature = generateCrx3Signature(privateKey, signedHeaderData, contents, rsa);
+    const signer = createSign("sha256");
+    signer.update(generateCrx3SignedPayload(signedHeaderData, new Uint8Array()));
+    for await (const chunk of createReadStream(archive)) signer.update(chunk);
+    const signature = Uint8Array.from(signer.sign(loadKeyObject(privateKey, "private")));
     
-    pb = new Pbf();
-    crx3.CrxFileHeader.write({
-        sha256_with_rsa: [{
-            public_key: publicKey satisfies Uint8Array,
-            signature
-        }],
+    const algorithm = getKeyAlgorithm(privateKey, "private");
+    const preamble = writeCrx3({
+        [algorithm == "ecdsa" ? "sha256_with_ecdsa" : "sha256_with_rsa"]: [{public_key: publicKey, signature}],
         signed_header_data: signedHeaderData
-    } as CrxFileHeader, pb);
-    const header = pb.finish();
+    }, new Uint8Array());
     
-    const size =
-        kSignature.length + // Magic constant
-        kVersion.length + // Version number
-        SIZE_BYTES + // Header size
-        header.length +
-        contents.length;
+    await writeToStream(output, (async function* () {
+        yield preamble;
+        for await (const chunk of createReadStream(archive)) yield Uint8Array.from(chunk);
+    })());
+}
+
+async function writeToStream(output: Writable | WritableStream<Uint8Array>, chunks: AsyncIterable<Uint8Array>) {
+    if ("getWriter" in output) {
+        const writer = output.getWriter();
+        try {
+            for await (const chunk of chunks) await writer.write(chunk);
+            await writer.close();
+        } catch (e) {
+            await writer.abort(e);
+            throw e;
+        }
+    } else {
+        await pipeline(Readable.from(chunks), output);
+    }
+}
+
+/**
+ * Add another signature to an existing CRX3 file, without touching its archive or ID.
+ * 
+ * @param crx The CRX3 file to co-sign.
+ * @param privateKey The private key to sign with. This can be an RSA key or an ECDSA P-256 key.
+ * @param rsa The instance of NodeRSA to use, if any.
+ * 
+ * @returns The contents of the co-signed extension.
+ */
+export function addSignature(crx: Uint8Array, privateKey: Uint8Array, rsa?: RSA): Uint8Array {
+    const unpacked = unpack(crx);
+    if (unpacked.crxVersion != 3) throw new CrxFormatError("UNSUPPORTED_CRX_VERSION", "Only CRX3 files can have more than one signature", {offset: 4});
+    const {header, archive} = unpacked;
+    if (!header.signed_header_data) throw new CrxFormatError("INVALID_HEADER", "The CRX file has no signed header data", {offset: 12});
     
-    const result = new Uint8Array(size);
+    const publicKey = rsa ? Uint8Array.from(rsa.exportKey("pkcs8-public-der")) : generatePublicKey(privateKey);
+    const hex = Buffer.from(publicKey).toString("hex");
+    if ([...header.sha256_with_rsa ?? [], ...header.sha256_with_ecdsa ?? []].some(proof => proof.public_key && Buffer.from(proof.public_key).toString("hex") == hex)) {
+        throw new KeyError("KEY_ALREADY_USED", "The CRX file is already signed with this key", {field: "privateKey"});
+    }
     
-    let index = 0;
-    result.set(kSignature, index);
-    result.set(kVersion, index += kSignature.length);
-    new DataView(result.buffer).setUint32(index += kVersion.length, header.length, true);
-    result.set(header, index += SIZE_BYTES);
-    result.set(contents, index += header.length);
+    const algorithm = rsa ? "rsa" : getKeyAlgorithm(privateKey, "private");
+    const proofs = algorithm == "ecdsa" ? header.sha256_with_ecdsa ??= [] : header.sha256_with_rsa ??= [];
+    proofs.push({
+        public_key: publicKey,
+        signature: generateCrx3Signature(privateKey, generateCrx3SignedPayload(header.signed_header_data, archive), rsa)
+    });
     
-    return result;
+    return writeCrx3(header, archive);
 }
 
 function generateBinaryCrxId(publicKey: Uint8Array): Uint8Array {
@@ -317,171 +410,1606 @@ function generateBinaryCrxId(publicKey: Uint8Array): Uint8Array {
     return Uint8Array.from(hash.digest()).slice(0, CRX_ID_SIZE);
 }
 
-function generateCrx3Signature(privateKey: Uint8Array, signedHeaderData: Uint8Array, contents: Uint8Array, rsa?: RSA): Uint8Array {
+function generateCrx3Signature(privateKey: Uint8Array, payload: Uint8Array, rsa?: RSA): Uint8Array {
+    if (!rsa && getKeyAlgorithm(privateKey, "private") == "ecdsa") {
+        return Uint8Array.from(cryptoSign("sha256", payload, loadKeyObject(privateKey, "private")));
+    }
+    
     rsa ??= new RSA(Buffer.from(privateKey), "pkcs8-private-der");
     rsa.setOptions({signingScheme: "pkcs1-sha256"});
     
-    // Size of signed_header_data
-    const sizeOctets = new DataView(new ArrayBuffer(SIZE_BYTES));
-    sizeOctets.setUint32(0, signedHeaderData.length, true);
-    
-    const toSign = Buffer.concat([
-        kSignatureContext,
-        new Uint8Array(sizeOctets.buffer),
-        signedHeaderData,
-        contents
-    ]);
-    
-    return Uint8Array.from(rsa.sign(toSign));
+    return Uint8Array.from(rsa.sign(Buffer.from(payload.buffer)));
+}
+
+function loadKeyObject(key: Uint8Array | string, type: "private" | "public"): KeyObject {
+    if (typeof key == "string") return type == "private" ? createPrivateKey(key) : createPublicKey(key);
+    return type == "private"
+        ? createPrivateKey({key: Buffer.from(key), format: "der", type: "pkcs8"})
+        : createPublicKey({key: Buffer.from(key), format: "der", type: "spki"});
+}
+
+/**
+ * Find out what kind of key this is.
+ * 
+ * @param key The key, in pkcs8-der (or pkcs8-pem, if given as a string).
+ * @param type Whether the key is private or public.
+ * 
+ * @returns The key's algorithm. Throws if the key is neither RSA nor ECDSA P-256.
+ */
+export function getKeyAlgorithm(key: Uint8Array | string, type: "private" | "public"): KeyAlgorithm {
+    let keyObject: KeyObject;
+    try {
+        keyObject = loadKeyObject(key, type);
+    } catch (e) {
+        throw new KeyError("KEY_PARSE_FAILED", `Could not read the ${type} key: expected ${typeof key == "string" ? "PEM" : type == "private" ? "pkcs8-der" : "spki-der"}`, {cause: e});
+    }
+    if (keyObject.asymmetricKeyType == "rsa") return "rsa";
+    if (keyObject.asymmetricKeyType == "ec" && keyObject.asymmetricKeyDetails?.namedCurve == "prime256v1") return "ecdsa";
+    throw new KeyError("KEY_UNSUPPORTED", "Only RSA and ECDSA P-256 keys are supported");
 }
 
 /**
  * Generate an extension's ID (32 characters, a-p) from its public key.
  * 
- * @param publicKey The public key of the extension.
+ * @param publicKey The public key of the extension. This can be an RSA key or an ECDSA P-256 key.
  * 
  * @returns The generated extension ID.
  */
 export function generateCrxId(publicKey: Uint8Array): string {
-    return createHash("sha256")
-        .update(publicKey)
-        .digest()
-        .toString("hex")
-        .split("")
-        .map(x => (parseInt(x, 16) + 0x0a).toString(26))
-        .join("")
-        .slice(0, 32);
+    return formatCrxId(generateBinaryCrxId(publicKey));
+}
+
+/**
+ * Generate the value for the `key` field of `manifest.json`, which gives an extension loaded unpacked the same ID as its CRX file.
+ * 
+ * @param key The extension's public key, or its private key if `type` is `"private"`.
+ * @param type Whether `key` is private or public. Defaults to `"public"`.
+ * 
+ * @returns The public key in spki-der, encoded as base64.
+ */
+export function generateManifestKey(key: Uint8Array, type: "private" | "public" = "public"): string {
+    return Buffer.from(type == "private" ? generatePublicKey(key) : key).toString("base64");
+}
+
+/**
+ * Generate an extension's ID from the `key` field of its `manifest.json`.
+ * 
+ * @param manifestKey The value of the `key` field.
+ * 
+ * @returns The extension ID.
+ */
+export function generateCrxIdFromManifestKey(manifestKey: string): string {
+    return generateCrxId(Uint8Array.from(Buffer.from(manifestKey, "base64")));
+}
+
+/**
+ * Set or remove the `key` field in the data of a `manifest.json` file, for the `manifestKey` option.
+ * 
+ * @returns The new data, or the same data if nothing had to change.
+ */
+function applyManifestKey(data: Uint8Array, manifestKey: string | false | null | undefined, path?: string): Uint8Array {
+    if (typeof manifestKey != "string" && manifestKey !== false) return data;
+    const manifest = parseManifest(new TextDecoder().decode(data), path);
+    if (manifestKey === false ? !("key" in manifest) : manifest.key == manifestKey) return data;
+    if (manifestKey === false) delete manifest.key;
+    else manifest.key = manifestKey;
+    return new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * A JSON merge patch for a manifest: objects are merged, `null` removes a field, and anything else (including arrays) replaces it.
+ */
+export type ManifestPatch = {[x: string]: unknown};
+
+/**
+ * Changes a file before it's packed.
+ * 
+ * @param path The file's path, relative to the extension's root and separated with `/`.
+ * @param data The file's contents, as given by the transforms before this one.
+ * 
+ * @returns The new contents, `undefined` to leave them as they are, or `null` to leave the file out.
+ */
+export type FileTransform = (path: string, data: Uint8Array) => Uint8Array | string | null | undefined | Promise<Uint8Array | string | null | undefined>;
+
+function mergeManifestPatch(target: unknown, patch: unknown): unknown {
+    if (!isObject(patch)) return patch;
+    const result = isObject(target) ? {...target} : {};
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) delete result[key];
+        else if (value !== undefined) result[key] = mergeManifestPatch(result[key], value);
+    }
+    return result;
+}
+
+/**
+ * Run the `transforms` option over a file.
+ * 
+ * @returns The new data, the same data if nothing changed, or `null` if the file should be left out.
+ */
+async function transformFile(path: string, data: Uint8Array, transforms: FileTransform[] | undefined): Promise<Uint8Array | null> {
+    for (const transform of transforms ?? []) {
+        const result = await transform(path, data);
+        if (result === null) return null;
+        if (result !== undefined) data = typeof result == "string" ? new TextEncoder().encode(result) : result;
+    }
+    return data;
+}
+
+type ManifestOptions = Pick<PackContentsOptions, "manifestOverride" | "bumpVersion" | "transforms"> & {manifestKey?: string | false | null};
+
+/**
+ * Apply `manifestOverride`, `bumpVersion`, `transforms` and then `manifestKey` to the data of a `manifest.json` file, in that order.
+ * 
+ * @returns The new data, or the same data if nothing had to change.
+ */
+async function prepareManifest(data: Uint8Array, options: ManifestOptions, path = "manifest.json"): Promise<Uint8Array> {
+    if (options.manifestOverride || options.bumpVersion) {
+        let manifest = parseManifest(new TextDecoder().decode(data), path);
+        if (typeof options.manifestOverride == "function") manifest = await options.manifestOverride(manifest);
+        else if (options.manifestOverride) manifest = mergeManifestPatch(manifest, options.manifestOverride) as ChromeManifest;
+        if (options.bumpVersion) manifest = {...manifest, version: incrementVersion(manifest.version, options.bumpVersion)};
+        data = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+    }
+    const transformed = await transformFile("manifest.json", data, options.transforms);
+    if (!transformed) throw new ManifestError("MANIFEST_MISSING", "A transform left out manifest.json", {path});
+    return applyManifestKey(transformed, options.manifestKey, path);
+}
+
+/**
+ * Move a ZIP archive's files to its root if they're in a folder (see `findManifestRoot`), then apply the `manifestKey`, `manifestOverride`, `bumpVersion` and `transforms` options to it.
+ * Unless the files were moved, only the entries that change are written again; the others keep their compressed data.
+ * 
+ * @param filter Whether to leave out the files that the archive's `.crxignore` and the `include`, `exclude` and `dotfiles` options leave out, and check the rest for private keys, as `packContents` does.
+ * 
+ * @returns The new archive (or the same archive if nothing had to change), and its manifest.
+ */
+async function transformArchive(archive: Uint8Array, options: ManifestOptions & Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "allowPrivateKeys">, filter = false): Promise<{contents: Uint8Array, manifest: ChromeManifest}> {
+    const loaded = await JSZip.loadAsync(archive);
+    const rerooted = await rerootZip(loaded);
+    const zip = rerooted ?? loaded;
+    const manifestFile = zip.file("manifest.json")!;
+    let manifest: Uint8Array | undefined, changed = rerooted != undefined;
+    
+    if (filter) {
+        const crxignore = await zip.file(".crxignore")?.async("string");
+        const paths = Object.values(zip.files).filter(file => !file.dir).map(file => file.name);
+        const kept = new Set(filterPaths(paths, createContentFilter(crxignore?.split(/\r?\n/) ?? [], options)));
+        for (const path of paths) {
+            if (kept.has(path)) continue;
+            zip.remove(path);
+            changed = true;
+        }
+    }
+    for (const file of Object.values(zip.files)) {
+        if (file.dir || (file != manifestFile && !options.transforms?.length && !filter)) continue;
+        const data = await file.async("uint8array");
+        const newData = file == manifestFile ? manifest = await prepareManifest(data, options) : await transformFile(file.name, data, options.transforms);
+        if (newData && filter) checkForPrivateKey(file.name, newData, options);
+        if (newData == data) continue;
+        changed = true;
+        if (newData) zip.file(file.name, newData, {date: file.date, unixPermissions: file.unixPermissions, dosPermissions: file.dosPermissions});
+        else zip.remove(file.name);
+    }
+    if (changed) {
+        // Leave out folders that no longer have anything in them
+        for (const file of Object.values(zip.files)) {
+            if (file.dir && !Object.values(zip.files).some(other => !other.dir && other.name.startsWith(file.name))) zip.remove(file.name);
+        }
+    }
+    return {
+        contents: changed ? await regenerateZip(zip) : archive,
+        manifest: parseManifest(new TextDecoder().decode(manifest!))
+    };
+}
+
+export interface PackContentsOptions {
+    /** Glob patterns for the files to pack. If given, files that don't match any of them are left out (except `manifest.json`). */
+    include?: string[];
+    /** Glob patterns for the files to leave out, in gitignore syntax. These are applied after the extension's `.crxignore` file. */
+    exclude?: string[];
+    /** Whether to pack files and folders whose names start with a dot. Defaults to `false`. */
+    dotfiles?: boolean;
+    /** Whether to pack files that look like private keys. Defaults to `false`, which makes packing throw if it finds one. */
+    allowPrivateKeys?: boolean;
+    /**
+     * Whether to make the same files always give the same ZIP archive, byte for byte.
+     * Every entry gets the same timestamp and permissions, and `compressionLevel` defaults to 9.
+     */
+    reproducible?: boolean;
+    /** The timestamp for every entry in reproducible mode. Defaults to `SOURCE_DATE_EPOCH` if it's set, or else 1980-01-01. */
+    timestamp?: Date;
+    /** The DEFLATE compression level, from 1 to 9. */
+    compressionLevel?: number;
+    /** How many files to read at once. Defaults to 16. */
+    concurrency?: number;
+    /** The `key` to set in the packed `manifest.json` (see `generateManifestKey`), or `false` to remove it. The manifest is left as it is by default. */
+    manifestKey?: string | false;
+    /** Changes to make to the packed `manifest.json`: a merge patch, or a function that returns the new manifest. */
+    manifestOverride?: ManifestPatch | ((manifest: ChromeManifest) => ChromeManifest | Promise<ChromeManifest>);
+    /** Increment a part of the packed manifest's `version`, after `manifestOverride`. */
+    bumpVersion?: VersionBump;
+    /** Functions to change or leave out files before they're packed, run in order on every file (including `manifest.json`, after `manifestOverride` and `bumpVersion`). */
+    transforms?: FileTransform[];
+}
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Turn a glob in gitignore syntax into a regular expression over `/`-separated relative paths.
+ * Patterns without a slash (other than a trailing one) match at any depth, like in gitignore.
+ */
+function globToRegExp(glob: string): RegExp {
+    const anchored = glob.replace(/\/$/, "").includes("/");
+    glob = glob.replace(/^\//, "").replace(/\/$/, "");
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch == "*") {
+            if (glob[i + 1] == "*") {
+                const slash = glob[i + 2] == "/";
+                source += slash ? "(?:.*/)?" : ".*";
+                i += slash ? 2 : 1;
+            } else {
+                source += "[^/]*";
+            }
+        } else if (ch == "?") {
+            source += "[^/]";
+        } else if (ch == "[") {
+            const end = glob.indexOf("]", i + 1);
+            if (end == -1) {
+                source += "\\[";
+            } else {
+                source += "[" + glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\") + "]";
+                i = end;
+            }
+        } else if (ch == "\\" && i + 1 < glob.length) {
+            source += glob[++i].replace(/[.+?^${}()|[\]\\*]/g, "\\$&");
+        } else {
+            source += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+    return new RegExp((anchored ? "^" : "^(?:.*/)?") + source + "(?:/.*)?$");
+}
+
+function parseIgnoreRules(lines: string[]): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (let line of lines) {
+        line = line.replace(/(?<!\\)\s+$/, "");
+        if (line == "" || line.startsWith("#")) continue;
+        const negated = line.startsWith("!");
+        if (negated) line = line.slice(1);
+        if (line.startsWith("\\")) line = line.slice(1);
+        rules.push({pattern: globToRegExp(line), negated, directoryOnly: line.endsWith("/")});
+    }
+    return rules;
+}
+
+function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+            // A directory-only rule can still match a file through one of its parent directories
+            const parent = path.slice(0, Math.max(path.lastIndexOf("/"), 0));
+            if (!parent || !rule.pattern.test(parent)) continue;
+        } else if (!rule.pattern.test(path)) continue;
+        ignored = !rule.negated;
+    }
+    return ignored;
+}
+
+/**
+ * Make a test for whether a file or folder should be packed, following `.crxignore` and the include, exclude and dotfiles options.
+ * Folders are tested before the files in them, so a file is only packed if every folder it's in would be too.
+ * 
+ * @param crxignore The lines of the extension's `.crxignore` file, if it has one.
+ */
+function createContentFilter(crxignore: string[], options: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles">): (path: string, isDirectory: boolean) => boolean {
+    const excludeRules = parseIgnoreRules([...crxignore, ...options.exclude ?? []]);
+    const includeRules = options.include && parseIgnoreRules(options.include);
+    return (path, isDirectory) => {
+        if (!options.dotfiles && path.slice(path.lastIndexOf("/") + 1).startsWith(".")) return false;
+        if (isDirectory) return !isIgnored(excludeRules, path, true);
+        if (path == "manifest.json") return true;
+        return !isIgnored(excludeRules, path, false) && (!includeRules || isIgnored(includeRules, path, false));
+    };
+}
+
+/**
+ * Keep the files that `filter` allows from a list of paths, testing the folders in each path as `listContents` would while walking them.
+ */
+function filterPaths(paths: Iterable<string>, filter: (path: string, isDirectory: boolean) => boolean): string[] {
+    return [...paths].filter(path => {
+        const parts = path.split("/");
+        return parts.every((_, i) => filter(parts.slice(0, i + 1).join("/"), i < parts.length - 1));
+    });
+}
+
+/**
+ * Private keys are never bigger than this, so bigger files aren't checked.
+ * @constant
+ */
+const PRIVATE_KEY_SCAN_LIMIT = 64 * 1024;
+
+/**
+ * How many files are read at once by default.
+ * @constant
+ */
+const DEFAULT_CONCURRENCY = 16;
+
+function looksLikePrivateKey(data: Uint8Array): boolean {
+    if (data.length > PRIVATE_KEY_SCAN_LIMIT) return false;
+    const text = new TextDecoder().decode(data);
+    if (/-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(text)) return true;
+    if (/^\s*\{/.test(text)) {
+        // JSON Web Keys are private if they have a `d`
+        try {
+            const jwk: unknown = JSON.parse(text);
+            if (!isObject(jwk) || typeof jwk.d != "string") return false;
+            createPrivateKey({key: jwk, format: "jwk"});
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+    // DER keys start with a SEQUENCE
+    if (data[0] != 0x30) return false;
+    return (["pkcs8", "pkcs1", "sec1"] as const).some(type => {
+        try {
+            createPrivateKey({key: Buffer.from(data), format: "der", type});
+            return true;
+        } catch (e) {
+            return false;
+        }
+    });
+}
+
+function checkForPrivateKey(path: string, data: Uint8Array, options: Pick<PackContentsOptions, "allowPrivateKeys">) {
+    if (!options.allowPrivateKeys && looksLikePrivateKey(data)) throw new ArchiveError("PRIVATE_KEY_IN_CONTENTS", `Refusing to pack ${path}, which looks like a private key (set allowPrivateKeys to pack it anyways)`, {path});
+}
+
+function limitConcurrency(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+    return async task => {
+        if (active >= concurrency) await new Promise<void>(resolve => waiting.push(resolve));
+        else active++;
+        try {
+            return await task();
+        } finally {
+            // Hand the slot straight to the next task, if there is one
+            const next = waiting.shift();
+            if (next) next();
+            else active--;
+        }
+    };
+}
+
+/**
+ * Find every file that should be packed from a directory, following `.crxignore` and the include and exclude options.
+ * 
+ * @param requireManifest Whether to throw if there's no `manifest.json`.
+ * 
+ * @returns The files' paths relative to `root`, separated with `/` and sorted.
+ */
+async function listContents(root: string, options: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles">, requireManifest = true): Promise<string[]> {
+    const files: string[] = [];
+    
+    let crxignore: string[] = [];
+    try {
+        crxignore = (await fs.readFile(join(root, ".crxignore"), "utf8")).split(/\r?\n/);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code != "ENOENT") throw e;
+    }
+    const filter = createContentFilter(crxignore, options);
+    
+    async function f(loc: string) {
+        for (const entry of await fs.readdir(loc, {withFileTypes: true})) {
+            const fp = join(loc, entry.name);
+            const rp = relative(root, fp).split(sep).join("/");
+            if (!filter(rp, entry.isDirectory())) continue;
+            if (entry.isDirectory()) await f(fp);
+            else files.push(rp);
+        }
+    }
+    await f(root);
+    if (requireManifest && !files.includes("manifest.json")) throw new ManifestError("MANIFEST_MISSING", "Manifest file not found", {path: join(root, "manifest.json")});
+    return files.sort();
 }
 
 /**
  * Load a directory from the filesystem into a ZIP archive, using the node:fs API.
  * 
+ * Files and folders whose names start with a dot are left out by default, as is anything matched by a `.crxignore` file (in gitignore syntax) in the extension's root.
+ * 
+ * Entries are always added in order of their paths. With `reproducible`, the archive only depends on the files' paths and contents.
+ * 
  * @param where The path to the directory.
+ * @param options Which files to pack.
  */
-export async function packContents(where: string): Promise<{
+export async function packContents(where: string, options: PackContentsOptions = {}): Promise<{
     /** The ZIP-encoded data. */
     contents: Uint8Array,
     /** The manifest for the extension, parsed as JSON. */
     manifest: ChromeManifest
 }> {
+    const root = resolve(process.cwd(), where);
+    const paths = await listContents(root, options);
+    const limit = limitConcurrency(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const files = (await Promise.all(paths.map(rp => limit(async (): Promise<[string, Uint8Array] | undefined> => {
+        const original = Uint8Array.from(await fs.readFile(join(root, rp)));
+        const data = rp == "manifest.json" ? await prepareManifest(original, options, join(root, rp)) : await transformFile(rp, original, options.transforms);
+        if (!data) return undefined;
+        checkForPrivateKey(rp, data, options);
+        return [rp, data];
+    })))).filter(entry => entry != undefined);
+    
     const zip = new JSZip();
-    let manifest: Promise<Uint8Array> | undefined;
-    async function f(loc: string) {
-        for (const entry of await fs.readdir(loc, {withFileTypes: true})) {
-            const fp = join(loc, entry.name);
-            if (entry.isDirectory()) {
-                await f(fp);
-            } else {
-                const contents = fs.readFile(fp).then(buf => Uint8Array.from(buf));
-                const rp = relative(where, fp);
-                if (rp == "manifest.json") manifest ??= contents;
-                zip.file(rp, contents);
-            }
-        }
-    }
-    await f(resolve(process.cwd(), where));
-    if (manifest == undefined) throw new Error("Manifest file not found");
+    addToZip(zip, files, options);
     return {
-        contents: await zip.generateAsync({
-            compression: "DEFLATE",
-            type: "uint8array"
-        }),
-        manifest: JSON.parse(new TextDecoder().decode(await manifest))
+        contents: await zip.generateAsync({...getZipOptions(options), type: "uint8array"}),
+        manifest: parseManifest(new TextDecoder().decode(files.find(([rp]) => rp == "manifest.json")![1]), join(root, "manifest.json"))
     };
 }
 
 /**
- * Generate the updates XML file for [serving an extension yourself](https://developer.chrome.com/docs/extensions/how-to/distribute/host-on-linux).
+ * A stream of a file that isn't opened until something reads from it, so that JSZip can be given thousands of them at once.
+ */
+function createLazyReadStream(path: string, rp: string, size: number, options: PackContentsOptions): Readable {
+    let chunks: AsyncIterator<Buffer> | undefined;
+    return new Readable({
+        async read() {
+            try {
+                if (size <= PRIVATE_KEY_SCAN_LIMIT) {
+                    // Small enough to check all at once
+                    const data = Uint8Array.from(await fs.readFile(path));
+                    checkForPrivateKey(rp, data, options);
+                    this.push(data);
+                    this.push(null);
+                    return;
+                }
+                chunks ??= createReadStream(path)[Symbol.asyncIterator]();
+                const {value, done} = await chunks.next();
+                this.push(done ? null : value);
+            } catch (e) {
+                this.destroy(e as Error);
+            }
+        }
+    });
+}
+
+/**
+ * Stream a directory from the filesystem into a ZIP file, without holding the whole archive (or every file) in memory.
  * 
- * @param crxId The extension's ID.
- * @param url The URL where the extension's CRX file will be hosted.
- * @param version The extension's version.
- * @param minChromeVersion The minimum Chrome version that the extension can be installed on.
+ * This takes the same options as `packContents`, and gives the same entries. With `transforms`, each file is read into memory to be transformed.
  * 
- * @returns The updates XML text
+ * @param where The path to the directory.
+ * @param destination The path of the ZIP file to write.
+ * @param options Which files to pack.
  */
-export function generateUpdateXML(crxId: string, url: string, version: string, minChromeVersion?: string): string {
-    return `<?xml version='1.0' encoding='UTF-8'?>
-<gupdate xmlns='http://www.google.com/update2/response' protocol='2.0'>
-  <app appid='${crxId}'>
-    <updatecheck codebase='${url}' version='${version}'${minChromeVersion ? ` prodversionmin='${minChromeVersion}'` : ""} />
-  </app>
-</gupdate>`;
+export async function packContentsToFile(where: string, destination: string, options: PackContentsOptions = {}): Promise<{
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}> {
+    const root = resolve(process.cwd(), where);
+    const paths = await listContents(root, options);
+    const limit = limitConcurrency(options.concurrency ?? DEFAULT_CONCURRENCY);
+    const manifest = await prepareManifest(Uint8Array.from(await fs.readFile(join(root, "manifest.json"))), options, join(root, "manifest.json"));
+    const files = (await Promise.all(paths.map(rp => limit(async (): Promise<[string, Uint8Array | Readable] | undefined> => {
+        if (rp == "manifest.json") return [rp, manifest];
+        const fp = join(root, rp);
+        if (!options.transforms?.length) return [rp, createLazyReadStream(fp, rp, (await fs.stat(fp)).size, options)];
+        const data = await transformFile(rp, Uint8Array.from(await fs.readFile(fp)), options.transforms);
+        if (data) checkForPrivateKey(rp, data, options);
+        return data ? [rp, data] : undefined;
+    })))).filter(entry => entry != undefined);
+    
+    const zip = new JSZip();
+    addToZip(zip, files, options);
+    await pipeline(zip.generateNodeStream({...getZipOptions(options), streamFiles: true}), createWriteStream(destination));
+    return {
+        manifest: parseManifest(new TextDecoder().decode(manifest), join(root, "manifest.json"))
+    };
 }
 
-export function generatePrivateKey(bits = 4096): Uint8Array {
-    return Uint8Array.from(new RSA({b: bits}).exportKey("pkcs8-private-der"));
+/**
+ * The size of the blocks that files are hashed in for `computed_hashes.json`
+ * @constant
+ */
+const CONTENT_HASH_BLOCK_SIZE = 4096;
+
+export interface FileContentHashes {
+    /** The SHA-256 hash of each block of the file, in base64. An empty file has the hash of one empty block. */
+    block_hashes: string[];
+    /** The size of the blocks, in bytes. */
+    block_size: number;
+    /** The file's path, relative to the extension's root and separated with `/`. */
+    path: string;
 }
 
-export function generatePublicKey(privateKey: Uint8Array): Uint8Array {
-    return Uint8Array.from(new RSA(Buffer.from(privateKey), "pkcs8-private-der").exportKey("pkcs8-public-der"));
+export interface ComputedHashes {
+    /** The hashes of every file, in order of their paths. */
+    file_hashes: FileContentHashes[];
+    /** The version of the format, which is 2. */
+    version: number;
 }
 
-export function convertToPem(key: Uint8Array, type: "private" | "public"): string {
-    return new RSA(Buffer.from(key), `pkcs8-${type}-der`).exportKey(`pkcs8-${type}-pem`);
+export interface ContentHashCheck {
+    /** Whether every file matched its hashes, and none were missing or extra. */
+    valid: boolean;
+    /** Files whose contents don't match their hashes. */
+    mismatched: string[];
+    /** Files that have hashes, but aren't in the folder. */
+    missing: string[];
+    /** Files in the folder that don't have hashes. */
+    extra: string[];
 }
 
-export function convertFromPem(key: string, type: "private" | "public"): Uint8Array {
-    return Uint8Array.from(new RSA(key, `pkcs8-${type}-pem`).exportKey(`pkcs8-${type}-der`));
+function hashBlocks(data: Uint8Array, blockSize: number): string[] {
+    const hashes: string[] = [];
+    let offset = 0;
+    // Even an empty file has one block
+    do {
+        hashes.push(createHash("sha256").update(data.subarray(offset, offset + blockSize)).digest("base64"));
+        offset += blockSize;
+    } while (offset < data.length);
+    return hashes;
 }
 
 /**
- * Unpack a CRX file and extract its contents as ZIP data.
+ * Find and read the files to hash, leaving out `_metadata`, which is where Chrome keeps its own hashes in an installed extension.
+ * Files in memory are moved to the root and filtered like `pack` does with them. A folder doesn't need a `manifest.json`, so that a deleted one can be reported.
  * 
- * @param crx The CRX to be unpacked.
+ * @returns The files' paths and contents, sorted by path.
  */
-export function unpack(crx: Uint8Array): {
-    /** The ZIP data. */
-    archive: Uint8Array,
-    /** The CRX format version. */
-    crxVersion: 2,
-    /** The extension's public key. */
-    key: Uint8Array,
-    /** The signature over the contents of the extension. */
-    sign: Uint8Array
-} | {
-    /** The ZIP data. */
-    archive: Uint8Array,
-    /** The CRX format version. */
-    crxVersion: 3,
-    /** The header for the CRX file, for signatures and things. */
-    header: CrxFileHeader
-} {
-    const abuf = crx.buffer;
-    const dv = new DataView(abuf);
-    if (kSignature.every((v, i) => dv.getUint8(i) == v)) {
-        const crxVersion = dv.getUint32(4, true);
-        if (crxVersion == 2) {
-            const keyLength = dv.getUint32(8, true);
-            const signLength = dv.getUint32(12, true);
-            return {
-                archive: crx.slice(16 + keyLength + signLength),
-                crxVersion: 2,
-                key: crx.slice(16, 16 + keyLength),
-                sign: crx.slice(16 + keyLength, 16 + keyLength + signLength)
-            };
-        } else if (crxVersion == 3) {
-            const headerLength = dv.getUint32(8, true);
-            const archive = crx.slice(12 + headerLength);
-            const header = crx.slice(12, 12 + headerLength);
-            const pb = new Pbf(header);
-            const decodedHeader = crx3.CrxFileHeader.read(pb);
-            return {archive, crxVersion: 3, header: decodedHeader};
-        }
+async function readHashedFiles(files: string | FileMap, options: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "concurrency">): Promise<[string, Uint8Array][]> {
+    if (typeof files != "string") {
+        let entries = [...files instanceof Map ? files : Object.entries(files)]
+            .map(([path, data]): [string, Uint8Array] => [path.replace(/\\/g, "/").replace(/^\.?\//, ""), typeof data == "string" ? new TextEncoder().encode(data) : data]);
+        const root = findManifestRoot(entries.map(([path]) => path));
+        entries = entries.filter(([path]) => path.startsWith(root)).map(([path, data]) => [path.slice(root.length), data]);
+        const crxignore = entries.find(([path]) => path == ".crxignore")?.[1];
+        const kept = new Set(filterPaths(entries.map(([path]) => path), createContentFilter(crxignore ? new TextDecoder().decode(crxignore).split(/\r?\n/) : [], options)));
+        return entries
+            .filter(([path]) => kept.has(path) && !path.startsWith("_metadata/"))
+            .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
     }
-    throw new Error("The file given is not a valid CRX file");
+    const root = resolve(process.cwd(), files);
+    const paths = (await listContents(root, options, false)).filter(rp => !rp.startsWith("_metadata/"));
+    const limit = limitConcurrency(options.concurrency ?? DEFAULT_CONCURRENCY);
+    return await Promise.all(paths.map(rp => limit(async (): Promise<[string, Uint8Array]> => [rp, Uint8Array.from(await fs.readFile(join(root, rp)))])));
 }
 
-export interface PackInput {
-    /** The ZIP archive of the contents of the extension, or a path to the folder containing the extension. */
-    contents?: Uint8Array | string;
-    /** The private key for the extension, or a path to it. */
-    privateKey?: Uint8Array | string | null;
+/**
+ * Hash an extension's files the way Chrome does for content verification, which is SHA-256 over each 4096-byte block of every file.
+ * The result is in the format of the `_metadata/computed_hashes.json` file that Chrome writes for installed extensions.
+ * 
+ * @param files The path to the extension's folder, whose files are found like `packContents` finds them, or the extension's files themselves (like from `readFiles`), which are moved to the root and filtered like `pack` does with them.
+ * @param options Which files to hash, as for `packContents`.
+ */
+export async function computeContentHashes(files: string | FileMap, options: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "concurrency"> = {}): Promise<ComputedHashes> {
+    return {
+        file_hashes: (await readHashedFiles(files, options)).map(([path, data]) => ({
+            block_hashes: hashBlocks(data, CONTENT_HASH_BLOCK_SIZE),
+            block_size: CONTENT_HASH_BLOCK_SIZE,
+            path
+        })),
+        version: 2
+    };
+}
+
+/**
+ * Check the files in an extension's folder against hashes from `computeContentHashes` (or Chrome's own `computed_hashes.json`), to find files that changed since.
+ * 
+ * @param dir The path to the extension's folder. Its files are found like `packContents` finds them, so give the same options as for the hashes, but it doesn't need a `manifest.json`.
+ * @param hashes The hashes to check against. Every `block_size` must be a positive whole number.
+ * @param options Which files in the folder to check.
+ */
+export async function checkContentHashes(dir: string, hashes: ComputedHashes, options: Pick<PackContentsOptions, "include" | "exclude" | "dotfiles" | "concurrency"> = {}): Promise<ContentHashCheck> {
+    for (const file of hashes.file_hashes) {
+        if (!Number.isSafeInteger(file.block_size) || file.block_size <= 0) throw new OptionError("INVALID_OPTION", `The block size for ${file.path} must be a positive whole number, not ${file.block_size}`, {path: file.path, field: "block_size"});
+    }
+    const expected = new Map(hashes.file_hashes.map(file => [file.path, file]));
+    const mismatched: string[] = [], extra: string[] = [];
+    const found = new Set<string>();
+    for (const [path, data] of await readHashedFiles(dir, options)) {
+        found.add(path);
+        const file = expected.get(path);
+        if (!file) extra.push(path);
+        else if (hashBlocks(data, file.block_size).join() != file.block_hashes.join()) mismatched.push(path);
+    }
+    const missing = [...expected.keys()].filter(path => !found.has(path)).sort();
+    return {valid: !mismatched.length && !missing.length && !extra.length, mismatched, missing, extra};
+}
+
+export interface ManifestIssue {
+    /** The manifest key the issue is about, as a dotted path (like `content_scripts.0.js.1`). */
+    field: string;
+    /** What's wrong. */
+    message: string;
+}
+
+export interface ManifestValidation {
+    /** Whether there were no errors. Warnings don't count. */
+    valid: boolean;
+    /** Problems that will stop Chrome from loading the extension. */
+    errors: ManifestIssue[];
+    /** Problems that Chrome will tolerate, but probably aren't intended. */
+    warnings: ManifestIssue[];
+}
+
+/** Keys that only work in manifest version 2, and whether using them in version 3 stops the extension from loading. */
+const mv2OnlyKeys: {[x: string]: boolean} = {
+    "browser_action": false,
+    "page_action": false,
+    "background.scripts": true,
+    "background.page": true,
+    "background.persistent": false
+};
+
+/** Keys that only work in manifest version 3. */
+const mv3OnlyKeys = ["action", "host_permissions", "optional_host_permissions", "side_panel", "background.service_worker", "background.type"];
+
+function isObject(value: unknown): value is {[x: string]: unknown} {
+    return typeof value == "object" && value != null && !Array.isArray(value);
+}
+
+function getField(manifest: unknown, field: string): unknown {
+    return field.split(".").reduce<unknown>((value, key) => typeof value == "object" && value != null ? (value as {[x: string]: unknown})[key] : undefined, manifest);
+}
+
+/**
+ * Check an extension's manifest for the right keys and value types for its manifest version, and that every file it refers to exists.
+ * 
+ * @param manifest The manifest, parsed as JSON.
+ * @param files The paths of every file in the extension, relative to its root and separated with `/`.
+ * 
+ * @returns The errors and warnings that were found.
+ */
+export function validateManifest(manifest: ChromeManifest, files: Iterable<string>): ManifestValidation {
+    const errors: ManifestIssue[] = [];
+    const warnings: ManifestIssue[] = [];
+    const fileSet = new Set(Array.from(files, file => file.replace(/\\/g, "/")));
+    const m: unknown = manifest;
+    
+    if (!isObject(m)) {
+        return {valid: false, errors: [{field: "", message: "The manifest must be a JSON object"}], warnings};
+    }
+    
+    function expectType(field: string, type: "string" | "boolean" | "number" | "object" | "string[]" | "object[]", required = false): boolean {
+        const value = getField(m, field);
+        if (value === undefined) {
+            if (required) errors.push({field, message: `${field} is required`});
+            return false;
+        }
+        const ok =
+            type == "string[]" ? Array.isArray(value) && value.every(x => typeof x == "string")
+            : type == "object[]" ? Array.isArray(value) && value.every(x => typeof x == "object" && x != null && !Array.isArray(x))
+            : type == "object" ? typeof value == "object" && value != null && !Array.isArray(value)
+            : typeof value == type;
+        if (!ok) errors.push({field, message: `${field} must be ${type == "string[]" ? "an array of strings" : type == "object[]" ? "an array of objects" : type == "object" ? "an object" : `a ${type}`}`});
+        return ok;
+    }
+    
+    function expectFile(field: string, path: unknown) {
+        if (typeof path != "string") return;
+        const normalized = path.replace(/^\.?\//, "").split(/[?#]/)[0];
+        if (/^[a-z][a-z0-9+.-]*:/i.test(normalized)) return;
+        if (normalized.includes("*")) {
+            const pattern = new RegExp("^" + normalized.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$");
+            if (![...fileSet].some(file => pattern.test(file))) errors.push({field, message: `${field} refers to ${path}, which doesn't match any files in the extension`});
+        } else if (!fileSet.has(normalized)) {
+            errors.push({field, message: `${field} refers to ${path}, which doesn't exist in the extension`});
+        }
+    }
+    
+    function expectFiles(field: string, required = false) {
+        if (expectType(field, "string[]", required)) (getField(m, field) as string[]).forEach((path, i) => expectFile(`${field}.${i}`, path));
+    }
+    
+    function expectIcons(field: string) {
+        const icons = getField(m, field);
+        if (typeof icons == "string") expectFile(field, icons);
+        else if (expectType(field, "object")) {
+            for (const [size, path] of Object.entries(icons as object)) {
+                if (!/^\d+$/.test(size)) errors.push({field: `${field}.${size}`, message: `${field} has an invalid icon size: ${size}`});
+                if (typeof path != "string") errors.push({field: `${field}.${size}`, message: `${field}.${size} must be a string`});
+                else expectFile(`${field}.${size}`, path);
+            }
+        }
+    }
+    
+    // Required keys
+    if (m.manifest_version !== 2 && m.manifest_version !== 3) {
+        errors.push({field: "manifest_version", message: m.manifest_version === undefined ? "manifest_version is required" : "manifest_version must be 2 or 3"});
+    }
+    if (expectType("name", "string", true) && m.name === "") errors.push({field: "name", message: "name must not be empty"});
+    if (expectType("version", "string", true)) {
+        const parts = `${m.version}`.split(".");
+        if (parts.length > 4 || !parts.every((part: string) => /^(0|[1-9]\d*)$/.test(part) && Number(part) <= 65535)) {
+            errors.push({field: "version", message: "version must be one to four dot-separated integers between 0 and 65535"});
+        }
+    }
+    
+    // Value types
+    for (const field of ["description", "author", "default_locale", "devtools_page", "homepage_url", "minimum_chrome_version", "options_page", "short_name", "update_url", "version_name", "key"]) {
+        expectType(field, "string");
+    }
+    for (const field of ["permissions", "optional_permissions", "host_permissions", "optional_host_permissions"]) {
+        expectType(field, "string[]");
+    }
+    expectType("content_scripts", "object[]");
+    expectType("background", "object");
+    
+    // Keys from the other manifest version
+    if (m.manifest_version == 3) {
+        for (const [field, fatal] of Object.entries(mv2OnlyKeys)) {
+            if (getField(m, field) !== undefined) (fatal ? errors : warnings).push({field, message: `${field} is only supported in manifest version 2`});
+        }
+        if (m.content_security_policy !== undefined) expectType("content_security_policy", "object");
+        if (Array.isArray(m.web_accessible_resources) && m.web_accessible_resources.some((x: unknown) => typeof x == "string")) {
+            errors.push({field: "web_accessible_resources", message: "web_accessible_resources must be a list of objects in manifest version 3"});
+        }
+    } else if (m.manifest_version == 2) {
+        for (const field of mv3OnlyKeys) {
+            if (getField(m, field) !== undefined) warnings.push({field, message: `${field} is only supported in manifest version 3`});
+        }
+        if (m.content_security_policy !== undefined) expectType("content_security_policy", "string");
+    }
+    
+    // Referenced files
+    if (m.icons !== undefined) expectIcons("icons");
+    for (const action of ["action", "browser_action", "page_action"]) {
+        if (!expectType(action, "object")) continue;
+        if (getField(m, `${action}.default_icon`) !== undefined) expectIcons(`${action}.default_icon`);
+        if (expectType(`${action}.default_popup`, "string")) expectFile(`${action}.default_popup`, getField(m, `${action}.default_popup`));
+    }
+    if (Array.isArray(m.content_scripts)) {
+        m.content_scripts.forEach((_: unknown, i: number) => {
+            expectType(`content_scripts.${i}.matches`, "string[]", true);
+            expectFiles(`content_scripts.${i}.js`);
+            expectFiles(`content_scripts.${i}.css`);
+        });
+    }
+    if (expectType("background.service_worker", "string")) expectFile("background.service_worker", getField(m, "background.service_worker"));
+    if (expectType("background.page", "string")) expectFile("background.page", getField(m, "background.page"));
+    expectFiles("background.scripts");
+    for (const field of ["options_page", "devtools_page", "options_ui.page", "side_panel.default_path", "chrome_url_overrides.bookmarks", "chrome_url_overrides.history", "chrome_url_overrides.newtab", "storage.managed_schema"]) {
+        if (expectType(field, "string")) expectFile(field, getField(m, field));
+    }
+    if (typeof m.side_panel == "string") expectFile("side_panel", m.side_panel);
+    expectFiles("sandbox.pages");
+    if (Array.isArray(m.web_accessible_resources)) {
+        m.web_accessible_resources.forEach((entry: unknown, i: number) => {
+            if (typeof entry == "string") expectFile(`web_accessible_resources.${i}`, entry);
+            else expectFiles(`web_accessible_resources.${i}.resources`, true);
+        });
+    } else if (m.web_accessible_resources !== undefined) {
+        errors.push({field: "web_accessible_resources", message: "web_accessible_resources must be an array"});
+    }
+    if (expectType("declarative_net_request.rule_resources", "object[]")) {
+        (getField(m, "declarative_net_request.rule_resources") as object[]).forEach((_, i) => {
+            const field = `declarative_net_request.rule_resources.${i}.path`;
+            if (expectType(field, "string", true)) expectFile(field, getField(m, field));
+        });
+    }
+    
+    return {valid: errors.length == 0, errors, warnings};
+}
+
+/**
+ * Check a packed extension with both `validateManifest` and `validateResources`, reading only the files that the latter needs.
+ */
+async function validateArchive(zip: JSZip, manifest: ChromeManifest): Promise<ManifestValidation> {
+    const paths = Object.values(zip.files).filter(file => !file.dir).map(file => file.name);
+    const rulesets = new Set<string>();
+    const resources = getField(manifest, "declarative_net_request.rule_resources");
+    if (Array.isArray(resources)) {
+        for (const resource of resources) if (isObject(resource) && typeof resource.path == "string") rulesets.add(resource.path.replace(/^\.?\//, ""));
+    }
+    const files = new Map<string, Uint8Array>();
+    for (const path of paths) {
+        if (path.startsWith("_locales/") || rulesets.has(path)) files.set(path, await zip.file(path)!.async("uint8array"));
+    }
+    const manifestValidation = validateManifest(manifest, paths);
+    const resourceValidation = validateResources(manifest, files);
+    return {
+        valid: manifestValidation.valid && resourceValidation.valid,
+        errors: [...manifestValidation.errors, ...resourceValidation.errors],
+        warnings: [...manifestValidation.warnings, ...resourceValidation.warnings]
+    };
+}
+
+export function generatePrivateKey(bits = 4096, algorithm: KeyAlgorithm = "rsa"): Uint8Array {
+    if (algorithm == "ecdsa") return Uint8Array.from(generateKeyPairSync("ec", {namedCurve: "P-256"}).privateKey.export({format: "der", type: "pkcs8"}));
+    return Uint8Array.from(new RSA({b: bits}).exportKey("pkcs8-private-der"));
+}
+
+export function generatePublicKey(privateKey: Uint8Array): Uint8Array {
+    if (getKeyAlgorithm(privateKey, "private") == "ecdsa") return Uint8Array.from(createPublicKey(loadKeyObject(privateKey, "private")).export({format: "der", type: "spki"}));
+    return Uint8Array.from(new RSA(Buffer.from(privateKey), "pkcs8-private-der").exportKey("pkcs8-public-der"));
+}
+
+/**
+ * Convert a key to PEM.
+ * 
+ * @param key The key, in pkcs8-der (or spki-der, if it's public).
+ * @param type Whether the key is private or public.
+ * @param passphrase A passphrase to encrypt a private key with (as `ENCRYPTED PRIVATE KEY`, using AES-256-CBC).
+ */
+export function convertToPem(key: Uint8Array, type: "private" | "public", passphrase?: string): string {
+    if (passphrase != undefined) {
+        if (type != "private") throw new OptionError("INVALID_OPTION", "Only private keys can be encrypted", {field: "passphrase"});
+        return loadKeyObject(key, type).export({format: "pem", type: "pkcs8", cipher: "aes-256-cbc", passphrase}).toString();
+    }
+    if (getKeyAlgorithm(key, type) == "ecdsa") return loadKeyObject(key, type).export({format: "pem", type: type == "private" ? "pkcs8" : "spki"}).toString();
+    return new RSA(Buffer.from(key), `pkcs8-${type}-der`).exportKey(`pkcs8-${type}-pem`);
+}
+
+/**
+ * Convert a PEM key to DER. Besides pkcs8-pem, this reads `RSA PRIVATE KEY` (PKCS#1, as written by Chrome's own packer), `EC PRIVATE KEY`, `RSA PUBLIC KEY` and `ENCRYPTED PRIVATE KEY`.
+ * 
+ * @param key The PEM text.
+ * @param type Whether the key is private or public.
+ * @param passphrase The passphrase, if the key is encrypted.
+ * 
+ * @returns The key, in pkcs8-der (or spki-der, if it's public).
+ */
+export function convertFromPem(key: string, type: "private" | "public", passphrase?: string): Uint8Array {
+    if (!key.includes("-----BEGIN")) throw new KeyError("KEY_PARSE_FAILED", `Expected a PEM ${type} key`);
+    return importKey(key, type, passphrase);
+}
+
+/**
+ * Convert a key to a JSON Web Key, as used by WebCrypto.
+ * 
+ * @param key The key, in pkcs8-der (or spki-der, if it's public).
+ * @param type Whether the key is private or public.
+ */
+export function convertToJwk(key: Uint8Array, type: "private" | "public"): JsonWebKey {
+    getKeyAlgorithm(key, type);
+    return loadKeyObject(key, type).export({format: "jwk"});
+}
+
+/**
+ * Convert a JSON Web Key to DER.
+ * 
+ * @param key The JSON Web Key, or its JSON text.
+ * @param type Whether the key is private or public. A private JWK can be given for `"public"`, and only its public part is kept.
+ * 
+ * @returns The key, in pkcs8-der (or spki-der, if it's public).
+ */
+export function convertFromJwk(key: JsonWebKey | string, type: "private" | "public"): Uint8Array {
+    return importKey(typeof key == "string" ? key : JSON.stringify(key), type);
+}
+
+function createKeyObject(key: Uint8Array | string, type: "private" | "public", passphrase?: string): KeyObject {
+    const create = (input: PrivateKeyInput | JsonWebKeyInput) => type == "private" ? createPrivateKey(input) : createPublicKey(input as PublicKeyInput | JsonWebKeyInput);
+    const text = typeof key == "string" ? key : new TextDecoder().decode(key);
+    if (text.includes("-----BEGIN")) return create({key: text, format: "pem", passphrase});
+    if (text.trimStart().startsWith("{")) return create({key: JSON.parse(text), format: "jwk"});
+    
+    // DER has no label saying what's inside, so each structure is tried in turn
+    const der = typeof key == "string" ? Buffer.from(key.replace(/\s+/g, ""), "base64") : Buffer.from(key);
+    const structures = type == "private" ? ["pkcs8", "pkcs1", "sec1"] as const : ["spki", "pkcs1"] as const;
+    for (const structure of structures) {
+        try {
+            return create({key: der, format: "der", type: structure as PrivateKeyInput["type"], passphrase});
+        } catch (e) {
+            if ((e as {code?: string}).code == "ERR_MISSING_PASSPHRASE" || (passphrase != undefined && structure == "pkcs8" && /decrypt/i.test(`${e}`))) throw e;
+        }
+    }
+    throw new KeyError("KEY_PARSE_FAILED", `Could not read the ${type} key: expected PEM, DER or a JSON Web Key`);
+}
+
+/**
+ * Read a key in any of the formats that Chrome, OpenSSL and WebCrypto write, and convert it to the DER that the rest of this library uses.
+ * 
+ * The format is detected from the key itself, not from a file extension:
+ * PEM (PKCS#8, encrypted PKCS#8, PKCS#1 or SEC1), DER (the same structures), a JSON Web Key as text, or DER encoded as base64 text.
+ * 
+ * @param key The key, as the bytes of a file or as text.
+ * @param type Whether the key is private or public.
+ * @param passphrase The passphrase, if the key is encrypted.
+ * 
+ * @returns The key, in pkcs8-der (or spki-der, if it's public). Throws if the key is neither RSA nor ECDSA P-256.
+ */
+export function importKey(key: Uint8Array | string, type: "private" | "public", passphrase?: string): Uint8Array {
+    let keyObject: KeyObject;
+    try {
+        keyObject = createKeyObject(key, type, passphrase);
+    } catch (e) {
+        if (e instanceof PackCrxError) throw e;
+        if ((e as {code?: string}).code == "ERR_MISSING_PASSPHRASE") throw new KeyError("KEY_PASSPHRASE_REQUIRED", "The private key is encrypted, so a passphrase is needed", {cause: e});
+        if (passphrase != undefined && /decrypt/i.test(`${e}`)) throw new KeyError("KEY_PASSPHRASE_WRONG", "Could not decrypt the private key: the passphrase is wrong", {cause: e});
+        throw new KeyError("KEY_PARSE_FAILED", `Could not read the ${type} key: ${e instanceof Error ? e.message : e}`, {cause: e});
+    }
+    const der = Uint8Array.from(keyObject.export({format: "der", type: type == "private" ? "pkcs8" : "spki"}));
+    getKeyAlgorithm(der, type);
+    return der;
+}
+
+/**
+ * Read a key from an environment variable, for CI systems that keep keys as secrets rather than files.
+ * The variable can hold anything that `importKey` reads, including DER encoded as base64.
+ * 
+ * @param name The name of the environment variable.
+ * @param type Whether the key is private or public.
+ * @param passphrase The passphrase, if the key is encrypted.
+ * 
+ * @returns The key, in pkcs8-der (or spki-der, if it's public). Throws if the variable isn't set.
+ */
+export function loadKeyFromEnv(name: string, type: "private" | "public", passphrase?: string): Uint8Array {
+    const value = process.env[name];
+    if (!value) throw new KeyError("KEY_NOT_FOUND", `The environment variable ${name} is not set`);
+    return importKey(value, type, passphrase);
+}
+
+/**
+ * Find the fingerprint of a key: the SHA-256 hash of its public key in spki-der, in hexadecimal.
+ * The extension's ID comes from the first half of the same hash, so two keys with the same fingerprint sign for the same ID.
+ * 
+ * @param key The key, in any format that `importKey` reads.
+ * @param type Whether `key` is private or public. Defaults to `"public"`.
+ * @param passphrase The passphrase, if the key is encrypted.
+ */
+export function keyFingerprint(key: Uint8Array | string, type: "private" | "public" = "public", passphrase?: string): string {
+    const publicKey = type == "private" ? generatePublicKey(importKey(key, "private", passphrase)) : importKey(key, "public");
+    return createHash("sha256").update(publicKey).digest("hex");
+}
+
+/**
+ * Read a key for `pack`, from a path or, if `source` is `env:NAME`, from an environment variable.
+ * 
+ * @returns The key, or `undefined` if there's no file at the path.
+ */
+async function readKey(source: string, type: "private" | "public", passphrase?: string): Promise<Uint8Array | undefined> {
+    if (source.startsWith("env:")) return loadKeyFromEnv(source.slice(4), type, passphrase);
+    let data: Uint8Array;
+    try {
+        data = Uint8Array.from(await fs.readFile(source));
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code == "ENOENT") return undefined;
+        throw e;
+    }
+    try {
+        return importKey(data, type, passphrase);
+    } catch (e) {
+        if (e instanceof KeyError) throw new KeyError(e.code, `${e.message} (${source})`, {path: source, cause: e.cause});
+        throw e;
+    }
+}
+
+/**
+ * Unpack a CRX file without loading the whole archive into memory.
+ * Only the header is read up front; the ZIP data is left in the returned stream.
+ * 
+ * @param source The path to a CRX file, or a Node `Readable` or web `ReadableStream` of one.
+ */
+export async function unpackStream(source: string | Readable | ReadableStream<Uint8Array>): Promise<{
+    /** The ZIP data. */
+    archive: Readable,
+    /** The CRX format version. */
+    crxVersion: 2,
+    /** The extension's public key. */
+    key: Uint8Array,
+    /** The signature over the contents of the extension. */
+    sign: Uint8Array
+} | {
+    /** The ZIP data. */
+    archive: Readable,
+    /** The CRX format version. */
+    crxVersion: 3,
+    /** The header for the CRX file, for signatures and things. */
+    header: CrxFileHeader
+}> {
+    const stream = typeof source == "string" ? createReadStream(source)
+        : source instanceof Readable ? source
+        : Readable.fromWeb(source as import("node:stream/web").ReadableStream<Uint8Array>);
+    const chunks: AsyncIterator<Uint8Array> = stream[Symbol.asyncIterator]();
+    let buffered = new Uint8Array();
+    let position = 0;
+    
+    async function read(length: number, needed = position + length): Promise<Uint8Array> {
+        while (buffered.length < length) {
+            const {value, done} = await chunks.next();
+            if (done) {
+                // Only the bytes that did arrive are checked for the magic number and version
+                if (position == 0) readCrxPrelude(new DataView(buffered.buffer, buffered.byteOffset, buffered.byteLength));
+                throw truncated(needed, position + buffered.length);
+            }
+            const joined = new Uint8Array(buffered.length + value.length);
+            joined.set(buffered);
+            joined.set(value, buffered.length);
+            buffered = joined;
+        }
+        const result = buffered.slice(0, length);
+        buffered = buffered.slice(length);
+        position += length;
+        return result;
+    }
+    
+    const archive = () => Readable.from((async function* () {
+        if (buffered.length) yield buffered;
+        while (true) {
+            const {value, done} = await chunks.next();
+            if (done) return;
+            yield value;
+        }
+    })());
+    
+    try {
+        const start = await read(12);
+        const dv = new DataView(start.buffer);
+        const crxVersion = readCrxPrelude(dv);
+        if (crxVersion == 2) {
+            const keyLength = dv.getUint32(8, true);
+            const signLength = new DataView((await read(4)).buffer).getUint32(0, true);
+            const key = await read(keyLength, 16 + keyLength + signLength);
+            const sign = await read(signLength);
+            return {archive: archive(), crxVersion: 2, key, sign};
+        } else {
+            const headerLength = dv.getUint32(8, true);
+            const header = decodeCrx3Header(await read(headerLength));
+            return {archive: archive(), crxVersion: 3, header};
+        }
+    } catch (e) {
+        stream.destroy();
+        throw e;
+    }
+}
+
+export interface ProofVerification {
+    /** The kind of signature this proof holds. CRX2 files only ever have one `pkcs1_sha1` proof. */
+    algorithm: "sha256_with_rsa" | "sha256_with_ecdsa" | "pkcs1_sha1";
+    /** The public key from the proof. */
+    publicKey: Uint8Array;
+    /** The extension ID derived from the proof's public key. */
+    id: string;
+    /** Whether the signature matched. */
+    valid: boolean;
+    /** Why the proof failed, if it did. */
+    error?: string;
+}
+
+export interface VerifyResult {
+    /** Whether every proof passed and the file's ID is backed by one of them. */
+    valid: boolean;
+    /** The CRX format version. */
+    crxVersion: 2 | 3;
+    /** The extension ID, derived from the key that the file's `crx_id` points to (or the only key, for CRX2). */
+    id?: string;
+    /** Every signature in the file, in the order they appear in the header. */
+    proofs: ProofVerification[];
+    /** Why the file failed to verify, if it did. */
+    errors: string[];
+}
+
+function verifyProof(algorithm: ProofVerification["algorithm"], proof: AsymmetricKeyProof, data: Uint8Array): ProofVerification {
+    const publicKey = proof.public_key ?? new Uint8Array();
+    const result: ProofVerification = {algorithm, publicKey, id: generateCrxId(publicKey), valid: false};
+    if (!proof.public_key?.length) {
+        result.error = "Proof has no public key";
+        return result;
+    }
+    if (!proof.signature?.length) {
+        result.error = "Proof has no signature";
+        return result;
+    }
+    try {
+        if (algorithm == "sha256_with_ecdsa") {
+            result.valid = cryptoVerify("sha256", data, loadKeyObject(publicKey, "public"), proof.signature);
+        } else {
+            const rsa = new RSA(Buffer.from(publicKey), "pkcs8-public-der");
+            rsa.setOptions({signingScheme: algorithm == "pkcs1_sha1" ? "pkcs1-sha1" : "pkcs1-sha256"});
+            result.valid = rsa.verify(Buffer.from(data.buffer, data.byteOffset, data.byteLength), Buffer.from(proof.signature));
+        }
+        if (!result.valid) result.error = "Signature does not match";
+    } catch (e) {
+        result.error = `Could not check signature: ${e instanceof Error ? e.message : e}`;
+    }
+    return result;
+}
+
+/**
+ * Verify the signatures of a CRX file.
+ * 
+ * For CRX3, every `sha256_with_rsa` and `sha256_with_ecdsa` proof is checked against the signed header data and the archive, and the `crx_id` in the signed header data must belong to one of the proofs' keys. For CRX2, the pkcs1-sha1 signature is checked against the archive.
+ * 
+ * @param crx The CRX to be verified.
+ * 
+ * @returns Which proofs passed, the extension ID, and why anything failed. This only throws if the file isn't a CRX at all.
+ */
+export function verify(crx: Uint8Array): VerifyResult {
+    const unpacked = unpack(crx);
+    const errors: string[] = [];
+    const proofs: ProofVerification[] = [];
+    let id: string | undefined;
+    if (unpacked.crxVersion == 2) {
+        proofs.push(verifyProof("pkcs1_sha1", {public_key: unpacked.key, signature: unpacked.sign}, unpacked.archive));
+        id = proofs[0].id;
+    } else {
+        const {header, archive} = unpacked;
+        const signedHeaderData = header.signed_header_data ?? new Uint8Array();
+        const payload = generateCrx3SignedPayload(signedHeaderData, archive);
+        for (const proof of header.sha256_with_rsa ?? []) proofs.push(verifyProof("sha256_with_rsa", proof, payload));
+        for (const proof of header.sha256_with_ecdsa ?? []) proofs.push(verifyProof("sha256_with_ecdsa", proof, payload));
+        if (proofs.length == 0) errors.push("The file has no signatures");
+        
+        let crxId: Uint8Array | null = null;
+        try {
+            crxId = crx3.SignedData.read(new Pbf(signedHeaderData)).crx_id;
+        } catch (e) {
+            errors.push("The signed header data could not be decoded");
+        }
+        if (!crxId?.length) {
+            errors.push("The signed header data has no crx_id");
+        } else {
+            const hex = Buffer.from(crxId).toString("hex");
+            const owner = proofs.find(proof => Buffer.from(generateBinaryCrxId(proof.publicKey)).toString("hex") == hex);
+            if (owner) id = owner.id;
+            else errors.push("The crx_id does not match any of the proofs' public keys");
+        }
+    }
+    for (const proof of proofs) {
+        if (!proof.valid) errors.push(`${proof.algorithm} proof for ${proof.id} failed: ${proof.error}`);
+    }
+    return {
+        valid: errors.length == 0,
+        crxVersion: unpacked.crxVersion,
+        id,
+        proofs,
+        errors
+    };
+}
+
+/**
+ * Find the ID of a CRX file from its header, without checking any signatures.
+ */
+function getUnpackedCrxId(unpacked: ReturnType<typeof unpack>): string | undefined {
+    if (unpacked.crxVersion == 2) return generateCrxId(unpacked.key);
+    const crxId: Uint8Array | null = unpacked.header.signed_header_data ? crx3.SignedData.read(new Pbf(unpacked.header.signed_header_data)).crx_id : null;
+    if (crxId?.length) return formatCrxId(crxId);
+    // Without a crx_id, the first key is the best guess
+    const publicKey = unpacked.header.sha256_with_rsa?.[0]?.public_key ?? unpacked.header.sha256_with_ecdsa?.[0]?.public_key;
+    return publicKey ? generateCrxId(publicKey) : undefined;
+}
+
+/**
+ * Load the entries of a ZIP archive, rejecting any that could be written outside of the folder they're extracted into.
+ */
+async function readArchiveEntries(archive: Uint8Array): Promise<[string, JSZip.JSZipObject][]> {
+    const zip = await JSZip.loadAsync(archive);
+    const entries: [string, JSZip.JSZipObject][] = [];
+    for (const entry of Object.values(zip.files)) {
+        // JSZip quietly strips leading ../ from names, but an archive that has them isn't one to trust
+        const original = (entry.unsafeOriginalName ?? entry.name).replace(/\\/g, "/");
+        if (original.startsWith("/") || /^[a-z]:/i.test(original) || original.split("/").includes("..")) {
+            throw new ArchiveError("UNSAFE_ARCHIVE_ENTRY", `The archive has an entry outside of its root: ${original}`, {path: original});
+        }
+        const name = entry.name.replace(/\\/g, "/");
+        if (entry.unixPermissions != null && (Number(entry.unixPermissions) & 0o170000) == 0o120000) {
+            throw new ArchiveError("UNSAFE_ARCHIVE_ENTRY", `The archive has a symbolic link: ${entry.name}`, {path: entry.name});
+        }
+        if (entry.dir) continue;
+        entries.push([name.split("/").filter(part => part != "" && part != ".").join("/"), entry]);
+    }
+    return entries;
+}
+
+/**
+ * Read the files inside a CRX file into memory.
+ * 
+ * @param crx The CRX file.
+ */
+export async function readFiles(crx: Uint8Array): Promise<{
+    /** The contents of every file in the extension, by their paths relative to its root. */
+    files: Map<string, Uint8Array>,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The extension's ID. */
+    id: string | undefined
+}> {
+    const unpacked = unpack(crx);
+    const files = new Map<string, Uint8Array>();
+    for (const [path, entry] of await readArchiveEntries(unpacked.archive)) {
+        files.set(path, await entry.async("uint8array"));
+    }
+    const manifest = files.get("manifest.json");
+    if (!manifest) throw new ManifestError("MANIFEST_MISSING", "Manifest file not found", {path: "manifest.json"});
+    return {
+        files,
+        manifest: parseManifest(new TextDecoder().decode(manifest)),
+        id: getUnpackedCrxId(unpacked)
+    };
+}
+
+/**
+ * Extract the files inside a CRX file into a directory, using the node:fs API.
+ * Entries that would end up outside of `outDir` (through `..` or absolute paths) and symbolic links are rejected before anything is written.
+ * 
+ * @param crx The CRX file.
+ * @param outDir The directory to extract into. It is created if it doesn't exist.
+ */
+export async function extract(crx: Uint8Array, outDir: string): Promise<{
+    /** The paths of the extracted files, relative to `outDir`. */
+    files: string[],
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The extension's ID. */
+    id: string | undefined
+}> {
+    const unpacked = unpack(crx);
+    const entries = await readArchiveEntries(unpacked.archive);
+    const manifest = entries.find(([path]) => path == "manifest.json");
+    if (!manifest) throw new ManifestError("MANIFEST_MISSING", "Manifest file not found", {path: "manifest.json"});
+    
+    const root = resolve(process.cwd(), outDir);
+    for (const [path, entry] of entries) {
+        const target = join(root, path);
+        await fs.mkdir(dirname(target), {recursive: true});
+        await fs.writeFile(target, await entry.async("uint8array"));
+    }
+    return {
+        files: entries.map(([path]) => path),
+        manifest: parseManifest(await manifest[1].async("string")),
+        id: getUnpackedCrxId(unpacked)
+    };
+}
+
+export interface ResignOptions {
+    /** The private key to sign with. This can be an RSA key or an ECDSA P-256 key (for CRX3 only). */
+    privateKey: Uint8Array;
+    /** The instance of NodeRSA to use, if any. */
+    rsa?: RSA;
+    /** The CRX format version to write. Defaults to 3, so CRX2 files are upgraded. */
+    crxVersion?: number;
+    /**
+     * What to do with the `key` field of `manifest.json`, which decides the ID of the extension when it's loaded unpacked.
+     * `"keep"` (the default) leaves the archive untouched, `"update"` sets it to the new public key, and `"remove"` deletes it.
+     */
+    manifestKey?: "keep" | "update" | "remove";
+}
+
+/**
+ * Sign an existing CRX file with a different key, which changes its ID. The old signatures are dropped.
+ * 
+ * The archive is reused as it is, unless `manifest.json` has to be changed for `manifestKey`; then only the manifest is written again, and the other entries keep their compressed data.
+ * 
+ * @param crx The CRX2 or CRX3 file to re-sign.
+ * @param options The new key, and how to write the result.
+ */
+export async function resign(crx: Uint8Array, options: ResignOptions): Promise<{
+    /** The re-signed CRX file. */
+    crx: Uint8Array,
+    /** The CRX format version of the re-signed file. */
+    crxVersion: number,
+    /** The extension's ID before re-signing, if it could be found. */
+    oldId: string | undefined,
+    /** The extension's new ID. */
+    newId: string
+}> {
+    const unpacked = unpack(crx);
+    const crxVersion = options.crxVersion ?? 3;
+    if (crxVersion != 2 && crxVersion != 3) throw new OptionError("INVALID_OPTION", "crxVersion must be 2 or 3", {field: "crxVersion"});
+    const {privateKey, rsa} = options;
+    const publicKey = rsa ? Uint8Array.from(rsa.exportKey("pkcs8-public-der")) : generatePublicKey(privateKey);
+    
+    let archive = unpacked.archive;
+    if (options.manifestKey == "update") archive = (await transformArchive(archive, {manifestKey: generateManifestKey(publicKey)})).contents;
+    else if (options.manifestKey == "remove") archive = (await transformArchive(archive, {manifestKey: false})).contents;
+    
+    return {
+        crx: crxVersion == 2 ? packCrx2(privateKey, publicKey, archive, rsa) : packCrx3(privateKey, publicKey, archive, rsa),
+        crxVersion,
+        oldId: getUnpackedCrxId(unpacked),
+        newId: generateCrxId(publicKey)
+    };
+}
+
+export interface WatchOptions {
+    /** Where to write the CRX file after each build. */
+    crxPath?: string;
+    /** Where to write the updates XML file after each build. Needs `crxUrl`. */
+    updateXMLPath?: string;
+    /** How long to wait for changes to stop before rebuilding, in milliseconds. Defaults to 100. */
+    debounce?: number;
+}
+
+export interface WatchInput extends Omit<PackInput, "contents" | "watch">, WatchOptions {
+    /** The path to the folder containing the extension. */
+    contents: string;
+}
+
+export interface WatchBuild {
+    /** The CRX file. */
+    crx: Uint8Array;
+    /** The extension's ID. */
+    id: string;
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest;
+    /** The updates XML file, if `crxUrl` was given. */
+    updateXML?: string;
+    /** Warnings about the manifest. There are no errors, or the build wouldn't have happened. */
+    manifestValidation: ManifestValidation;
+    /** The files that were added, changed or removed since the last build, or every file for the first one. */
+    changed: string[];
+}
+
+export interface WatcherEvents {
+    /** A new CRX file was built (and written, if `crxPath` was given). */
+    build: [build: WatchBuild];
+    /** The manifest has errors, so nothing was built. */
+    invalid: [validation: ManifestValidation];
+    /** Something went wrong while building. The watcher keeps going. */
+    error: [error: Error];
+}
+
+export interface Watcher extends EventEmitter<WatcherEvents> {
+    /** Resolves once the first build is done, or rejects if it failed. A manifest with errors isn't a failure; that's the `invalid` event. */
+    readonly ready: Promise<void>;
+    /** Stop watching. Resolves once any build in progress is done. */
+    close(): Promise<void>;
+}
+
+const DEFAULT_DEBOUNCE = 100;
+const MTIME_SLACK = 100;
+
+class DirectoryWatcher extends EventEmitter<WatcherEvents> implements Watcher {
+    readonly ready: Promise<void>;
+    private readonly root: string;
+    private readonly options: WatchInput;
+    /** The keys to sign with, which are filled in by the first build so that the ID stays the same. */
+    private readonly keys: Pick<PackInput, "privateKey" | "publicKey" | "rsa" | "additionalPrivateKeys" | "passphrase">;
+    private readonly stats = new Map<string, {mtimeMs: number, size: number}>();
+    private readonly dirty = new Set<string>();
+    private zip = new JSZip();
+    private manifest?: ChromeManifest;
+    private fsWatcher?: FSWatcher;
+    private timer?: ReturnType<typeof setTimeout>;
+    private building?: Promise<void>;
+    private queued = false;
+    private closed = false;
+    
+    /**
+     * @param seed The build that `pack` just did, to start from instead of building everything again. `started` is when that build began.
+     */
+    constructor(options: WatchInput, seed?: {contents: Uint8Array, manifest: ChromeManifest, started: number}) {
+        super();
+        this.root = resolve(process.cwd(), options.contents);
+        // Don't pack the outputs into themselves if they're inside the extension
+        const outputs = [options.crxPath, options.updateXMLPath]
+            .filter(path => path != undefined)
+            .map(path => relative(this.root, resolve(process.cwd(), path)))
+            .filter(path => !path.startsWith("..") && !isAbsolute(path))
+            .map(path => "/" + path.split(sep).join("/"));
+        this.options = {...options, exclude: [...options.exclude ?? [], ...outputs]};
+        this.keys = {privateKey: options.privateKey, publicKey: options.publicKey, rsa: options.rsa, additionalPrivateKeys: options.additionalPrivateKeys, passphrase: options.passphrase};
+        
+        this.fsWatcher = watchFs(this.root, {recursive: true}, (event, filename) => {
+            if (filename) this.dirty.add(filename.toString().split(sep).join("/"));
+            clearTimeout(this.timer);
+            this.timer = setTimeout(() => this.run(), this.options.debounce ?? DEFAULT_DEBOUNCE);
+        });
+        this.fsWatcher.on("error", error => this.fail(error));
+        this.ready = this.run(seed ? () => this.seed(seed) : () => this.build());
+        // Nobody has to wait for the first build, so don't let a failed one crash the process
+        this.ready.catch(() => {});
+    }
+    
+    async close(): Promise<void> {
+        this.closed = true;
+        clearTimeout(this.timer);
+        this.fsWatcher?.close();
+        await this.building;
+    }
+    
+    /**
+     * Run a build, or queue another one if a build is already running.
+     * 
+     * @param first What to run in place of the first build. It's only given for `ready`, which rejects if it fails.
+     */
+    private async run(first?: () => Promise<void>): Promise<void> {
+        if (this.building) {
+            this.queued = true;
+            return this.building;
+        }
+        let failed = false, error: unknown;
+        this.building = (async () => {
+            let task = first;
+            do {
+                this.queued = false;
+                try {
+                    await (task ?? (() => this.build()))();
+                } catch (e) {
+                    if (task) [failed, error] = [true, e];
+                    else this.fail(e);
+                }
+                task = undefined;
+            } while (this.queued && !this.closed);
+        })();
+        await this.building;
+        this.building = undefined;
+        if (failed) throw error;
+    }
+    
+    /**
+     * Emit an error if anything is listening for it. Builds after the first run in the background, so there's nowhere to throw it otherwise.
+     */
+    private fail(error: unknown) {
+        if (this.listenerCount("error")) this.emit("error", error instanceof Error ? error : new Error(`${error}`));
+    }
+    
+    /**
+     * Load (or generate) the keys ahead of the first build, for `manifestKey: null`.
+     */
+    private async loadKeys() {
+        const input: PackInput = {...this.keys, keySize: this.options.keySize, keyAlgorithm: this.options.keyAlgorithm, manifestKey: null};
+        await pack(input);
+        Object.assign(this.keys, {privateKey: input.privateKey, publicKey: input.publicKey, rsa: input.rsa, additionalPrivateKeys: input.additionalPrivateKeys});
+        this.options.manifestKey = input.manifestKey;
+    }
+    
+    /**
+     * Take over the archive, manifest and file stats from the build that `pack` did.
+     */
+    private async seed({contents, manifest, started}: {contents: Uint8Array, manifest: ChromeManifest, started: number}) {
+        this.zip = await JSZip.loadAsync(contents);
+        this.manifest = manifest;
+        const paths = await listContents(this.root, this.options);
+        const limit = limitConcurrency(this.options.concurrency ?? DEFAULT_CONCURRENCY);
+        let stale = false;
+        await Promise.all(paths.map(rp => limit(async () => {
+            const {mtimeMs, size} = await fs.stat(join(this.root, rp));
+            // Files changed while pack was reading them are left out, so they're read again.
+            // File times come from a coarser clock than Date.now, so files changed just before count too.
+            if (mtimeMs < started - MTIME_SLACK) this.stats.set(rp, {mtimeMs, size});
+            else stale = true;
+        })));
+        // Files that pack saw but the watcher doesn't (like the watcher's own outputs) are removed by the next build
+        const current = new Set(paths);
+        for (const [name, file] of Object.entries(this.zip.files)) {
+            if (file.dir || current.has(name)) continue;
+            this.stats.set(name, {mtimeMs: -1, size: -1});
+            stale = true;
+        }
+        // Nothing has told the watcher about those changes, so build again straight away
+        if (stale) this.queued = true;
+    }
+    
+    /**
+     * Run a build with the changes seen since the last one, keeping them for the next build if this one fails.
+     */
+    private async build() {
+        const dirty = new Set(this.dirty);
+        this.dirty.clear();
+        try {
+            await this.update(dirty);
+        } catch (e) {
+            // A file can change without its stats changing, so check these again next time too
+            for (const rp of dirty) this.dirty.add(rp);
+            throw e;
+        }
+    }
+    
+    /**
+     * Bring the archive up to date with the directory, reading only the files that changed, then sign it.
+     */
+    private async update(dirty: Set<string>) {
+        const paths = await listContents(this.root, this.options);
+        const limit = limitConcurrency(this.options.concurrency ?? DEFAULT_CONCURRENCY);
+        const changed = (await Promise.all(paths.map(rp => limit(async (): Promise<[string, Uint8Array | null, {mtimeMs: number, size: number}] | undefined> => {
+            const {mtimeMs, size} = await fs.stat(join(this.root, rp));
+            const previous = this.stats.get(rp);
+            if (previous && previous.mtimeMs == mtimeMs && previous.size == size && !dirty.has(rp)) return undefined;
+            const original = Uint8Array.from(await fs.readFile(join(this.root, rp)));
+            // The manifest is transformed below, once the keys are loaded
+            const data = rp == "manifest.json" ? original : await transformFile(rp, original, this.options.transforms);
+            if (data) checkForPrivateKey(rp, data, this.options);
+            return [rp, data, {mtimeMs, size}];
+        })))).filter(entry => entry != undefined);
+        const current = new Set(paths);
+        const removed = [...this.stats.keys()].filter(rp => !current.has(rp));
+        if (!changed.length && !removed.length && this.manifest) return;
+        
+        // The stats are only kept once the build is done, so the files of a failed build are read again next time
+        const commit = () => {
+            for (const rp of removed) this.stats.delete(rp);
+            for (const [rp, , stats] of changed) this.stats.set(rp, stats);
+        };
+        const manifestEntry = changed.find(([rp]) => rp == "manifest.json");
+        if (manifestEntry) {
+            if (this.options.manifestKey === null) await this.loadKeys();
+            manifestEntry[1] = await prepareManifest(manifestEntry[1]!, this.options, join(this.root, "manifest.json"));
+            this.manifest = parseManifest(new TextDecoder().decode(manifestEntry[1]), join(this.root, "manifest.json"));
+        }
+        
+        for (const rp of removed) this.zip.remove(rp);
+        if (removed.length) {
+            // Deepest folders first, so their parents are empty by the time they're checked
+            for (const name of Object.keys(this.zip.files).sort().reverse()) {
+                if (this.zip.files[name].dir && !Object.keys(this.zip.files).some(other => other != name && other.startsWith(name))) this.zip.remove(name);
+            }
+        }
+        for (const [rp] of changed) this.zip.remove(rp);
+        addToZip(this.zip, changed.filter(([, data]) => data).map(([rp, data]) => [rp, data!]), this.options);
+        
+        const manifestValidation = await validateArchive(this.zip, this.manifest!);
+        if (!manifestValidation.valid) {
+            commit();
+            this.emit("invalid", manifestValidation);
+            return;
+        }
+        
+        const contents = await this.zip.generateAsync({...getZipOptions(this.options), type: "uint8array"});
+        // Entries loaded from the archive are kept compressed, so the next build only compresses what changed
+        this.zip = await JSZip.loadAsync(contents);
+        
+        const input: PackInput = {
+            ...this.keys,
+            keySize: this.options.keySize,
+            keyAlgorithm: this.options.keyAlgorithm,
+            crxVersion: this.options.crxVersion,
+            crxUrl: this.options.crxUrl,
+            contents,
+            manifest: this.manifest,
+            manifestValidation,
+            crx: null,
+            id: null,
+            updateXML: this.options.crxUrl == undefined ? undefined : null
+        };
+        await pack(input);
+        Object.assign(this.keys, {privateKey: input.privateKey, publicKey: input.publicKey, rsa: input.rsa, additionalPrivateKeys: input.additionalPrivateKeys});
+        
+        if (this.options.crxPath) await fs.writeFile(this.options.crxPath, input.crx!);
+        if (this.options.updateXMLPath && input.updateXML) await fs.writeFile(this.options.updateXMLPath, input.updateXML);
+        commit();
+        this.emit("build", {
+            crx: input.crx!,
+            id: input.id!,
+            manifest: this.manifest!,
+            updateXML: input.updateXML ?? undefined,
+            manifestValidation,
+            changed: [...changed.map(([rp]) => rp), ...removed].sort()
+        });
+    }
+}
+
+/**
+ * Watch an extension's folder, and build a new CRX file whenever something in it changes.
+ * 
+ * Changes are debounced, and only the files that changed are read and compressed again. Every build is signed with the same key: if `privateKey` isn't given (or doesn't exist yet), one is generated for the first build and kept.
+ * 
+ * The watcher emits `build` after each build, `invalid` instead if the manifest has errors, and `error` if anything fails. If the first build fails, `ready` rejects instead. Later builds run in the background, so on purpose, an `error` from them without a listener is ignored rather than thrown: a bad save shouldn't stop the watcher.
+ * 
+ * @param options The same options as `pack`, plus where to write the results.
+ */
+export function watch(options: WatchInput): Watcher {
+    return new DirectoryWatcher(options);
+}
+
+export interface PackInput extends Omit<PackContentsOptions, "manifestKey"> {
+    /**
+     * The contents of the extension: a path to its folder or to a ZIP file of it, its files (see `packFiles`), or the ZIP archive of them.
+     * If the files in a ZIP archive or file map are all in one folder with the manifest, that folder becomes the root.
+     */
+    contents?: Uint8Array | string | FileMap;
+    /** The private key for the extension, or a path to it (or `env:NAME` to read it from an environment variable). */
+    privateKey?: Uint8Array | string | null;
+    /** The passphrase for `privateKey` and `additionalPrivateKeys`, if they're encrypted. */
+    passphrase?: string;
     /** The size of key to generate, if needed. */
     keySize?: number;
-    /** The public key for the extension, or a path to it. */
+    /** The kind of key to generate, if needed. Defaults to `"rsa"`. */
+    keyAlgorithm?: KeyAlgorithm;
+    /** The public key for the extension, or a path to it (or `env:NAME` to read it from an environment variable). */
     publicKey?: Uint8Array | string | null;
-    /** The instance of NodeRSA to use. */
+    /** More private keys (or paths to them) to co-sign the CRX with. The extension's ID still comes from `privateKey`. */
+    additionalPrivateKeys?: (Uint8Array | string)[];
+    /** The instance of NodeRSA to use. This is left unset for ECDSA keys. */
     rsa?: RSA;
     /** The extension's ID. */
     id?: string | null;
@@ -499,10 +2027,26 @@ export interface PackInput {
     minChromeVersion?: string | null;
     /** The extension's [manifest](https://developer.chrome.com/docs/extensions/reference/manifest). */
     manifest?: ChromeManifest | null;
+    /** The result of checking the manifest against the packed files. */
+    manifestValidation?: ManifestValidation | null;
+    /** Whether to throw instead of packing if the manifest has errors. Implies `manifestValidation: null`. */
+    failOnInvalidManifest?: boolean;
+    /** The `key` to set in the packed `manifest.json`, or `false` to remove it. With `null`, it's generated from `publicKey`. */
+    manifestKey?: string | false | null;
+    /** The unsigned Firefox XPI file. Generating it checks `browser_specific_settings.gecko.id`. */
+    xpi?: Uint8Array | null;
+    /** The URL to where the XPI file (not the updates.json) will be hosted. */
+    xpiUrl?: string;
+    /** The [updates.json file](https://extensionworkshop.com/documentation/manage/updating-your-extension/) for self-hosting on Firefox. */
+    updatesJSON?: string | null;
+    /** Keep watching `contents` (which must be a path) after packing, and rebuild whenever it changes. The watcher is returned as `watcher`. */
+    watch?: boolean | WatchOptions;
 }
 
 type SetKeys<A extends object, B extends object> = {[x in keyof A | keyof B]: x extends keyof B ? unknown extends B[x] ? x extends keyof A ? A[x] : never : B[x] : x extends keyof A ? A[x] : never};
 
+type HasKeyPaths<K> = [K] extends [Uint8Array[] | undefined] ? false : true;
+
 export type TransformPack<I extends PackInput> =
     I["privateKey"] extends string ?
         TransformPack<SetKeys<I, {
@@ -513,12 +2057,23 @@ export type TransformPack<I extends PackInput> =
         TransformPack<SetKeys<I, {
             publicKey: Uint8Array | undefined;
         }>>
+    : HasKeyPaths<I["additionalPrivateKeys"]> extends true ?
+        TransformPack<SetKeys<I, {
+            additionalPrivateKeys: Uint8Array[];
+        }>>
     : I["updateXML"] extends null ?
         undefined extends I["crxUrl"] ? never : TransformPack<SetKeys<I, {
             updateXML: string;
             id: undefined extends I["id"] ? null : I["id"];
             extVersion: undefined extends I["extVersion"] ? null : I["extVersion"];
             minChromeVersion: undefined extends I["minChromeVersion"] ? null : I["minChromeVersion"];
+            crx: undefined extends I["crx"] ? undefined extends I["contents"] ? I["crx"] : null : I["crx"];
+        }>>
+    : I["updatesJSON"] extends null ?
+        undefined extends I["xpiUrl"] ? never : TransformPack<SetKeys<I, {
+            updatesJSON: string;
+            xpi: undefined extends I["xpi"] ? null : I["xpi"];
+            extVersion: undefined extends I["extVersion"] ? null : I["extVersion"];
         }>>
     : I["extVersion"] extends null ?
         TransformPack<SetKeys<I, {
@@ -530,12 +2085,24 @@ export type TransformPack<I extends PackInput> =
             minChromeVersion: string | undefined;
             manifest: undefined extends I["manifest"] ? null : I["manifest"];
         }>>
+    : I["manifestValidation"] extends null ?
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
+            manifestValidation: ManifestValidation;
+            manifest: undefined extends I["manifest"] ? null : I["manifest"];
+        }>>
     : I["manifest"] extends null ?
-        undefined extends I["contents"] ? never
-        : Uint8Array extends I["contents"] ? never
-        : TransformPack<SetKeys<I, {
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
             manifest: ChromeManifest;
         }>>
+    : I["xpi"] extends null ?
+        undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
+            xpi: Uint8Array;
+        }>>
+    : I["manifestKey"] extends null ?
+        TransformPack<SetKeys<I, {
+            manifestKey: string;
+            publicKey: undefined extends I["publicKey"] ? null : I["publicKey"];
+        }>>
     : I["crx"] extends null ?
         undefined extends I["contents"] ? never : TransformPack<SetKeys<I, {
             crx: Uint8Array;
@@ -555,13 +2122,15 @@ export type TransformPack<I extends PackInput> =
     : I["privateKey"] extends null ?
         TransformPack<SetKeys<I, {
             privateKey: Uint8Array;
-            rsa: RSA;
+            rsa: I["keyAlgorithm"] extends "ecdsa" ? I["rsa"] : RSA;
         }>>
-    : I["contents"] extends string ? 
+    : I["contents"] extends string | FileMap ?
         TransformPack<SetKeys<I, {
             contents: Uint8Array;
             manifest: ChromeManifest;
         }>>
+    : I["watch"] extends true | WatchOptions ?
+        I & {watcher: Watcher}
     : I;
 
 /**
@@ -573,40 +2142,55 @@ export type TransformPack<I extends PackInput> =
  * 
  * If a property requires another but that property is not requested (with `null`), then it is generated and given anyways.
  * 
- * If `privateKey` or `publicKey` are strings, `pack` will load the file at each path as a key. If the extension is `.pem`, they are loaded as pkcs8-pem and converted to pkcs8-der.
+ * If `privateKey` or `publicKey` are strings, `pack` will load the file at each path as a key, in any format that `importKey` reads, and convert it to pkcs8-der (or spki-der). A path of `env:NAME` reads the key from the environment variable `NAME` instead.
  * 
  * `pack` always returns a `Promise`, even if all of the operations inside are synchronous.
  * 
- * However, the return result is the same object as the input - just with the properties modified - so if you *really* want synchronous operations, you can keep a reference to the input object, call the function, and access the synchronous results from that object. Just make sure you don't set `privateKey` or `manifest` to `null` or `contents` to a string, otherwise some of your values might not arrive synchronously.
+ * However, the return result is the same object as the input - just with the properties modified - so if you *really* want synchronous operations, you can keep a reference to the input object, call the function, and access the synchronous results from that object. Just make sure you don't set `privateKey` or `manifest` to `null` or give `contents` (which is always read), otherwise some of your values might not arrive synchronously.
  */
 export async function pack<I extends PackInput>(options: I): Promise<TransformPack<I>> {
+    const watchRoot = options.watch ? options.contents : undefined;
+    // Files that change after this are read again by the watcher
+    const started = Date.now();
+    if (options.watch && (typeof watchRoot != "string" || !(await fs.stat(watchRoot)).isDirectory())) throw new OptionError("INVALID_OPTION", "contents must be a path to a folder to watch it", {field: "contents"});
     if (typeof options.privateKey == "string") {
-        try {
-            const isPem = options.privateKey.endsWith(".pem");
-            const contents = await fs.readFile(options.privateKey);
-            if (isPem) options.privateKey = Uint8Array.from((options.rsa ??= new RSA(contents, "pkcs8-private-pem")).exportKey("pkcs8-private-der"));
-            else options.privateKey = Uint8Array.from(contents);
-        } catch (e) {
-            if (!`${e}`.includes("ENOENT")) throw e;
-            options.privateKey = undefined;
-        }
+        // A key file that doesn't exist yet is generated below, if it's needed
+        options.privateKey = await readKey(options.privateKey, "private", options.passphrase);
+        if (options.privateKey && getKeyAlgorithm(options.privateKey, "private") == "rsa") options.rsa ??= new RSA(Buffer.from(options.privateKey), "pkcs8-private-der");
     }
     if (typeof options.publicKey == "string") {
-        try {
-            const isPem = options.publicKey.endsWith(".pem");
-            const contents = await fs.readFile(options.publicKey);
-            if (isPem) options.publicKey = Uint8Array.from(new RSA(contents, "pkcs8-public-pem").exportKey("pkcs8-public-der"));
-            else options.publicKey = Uint8Array.from(contents);
-        } catch (e) {
-            if (!`${e}`.includes("ENOENT")) throw e;
-            options.publicKey = undefined;
-        }
+        options.publicKey = await readKey(options.publicKey, "public");
+    }
+    if (options.additionalPrivateKeys?.some(key => typeof key == "string")) {
+        options.additionalPrivateKeys = await Promise.all(options.additionalPrivateKeys.map(async key => {
+            if (typeof key != "string") return key;
+            const data = await readKey(key, "private", options.passphrase);
+            if (!data) throw new KeyError("KEY_NOT_FOUND", `The key file ${key} does not exist`, {path: key, field: "additionalPrivateKeys"});
+            return data;
+        }));
     }
     if (options.updateXML === null) {
-        if (options.crxUrl === undefined) throw new Error("crxUrl must be defined to generate updateXML");
+        if (options.crxUrl === undefined) throw new OptionError("MISSING_DEPENDENCY", "crxUrl must be defined to generate updateXML", {field: "crxUrl"});
         if (options.id === undefined) options.id = null;
         if (options.extVersion === undefined) options.extVersion = null;
         if (options.minChromeVersion === undefined) options.minChromeVersion = null;
+        // Build the CRX too, so the updates XML has its hash and size
+        if (options.crx === undefined && options.contents !== undefined) options.crx = null;
+    }
+    if (options.updatesJSON === null) {
+        if (options.xpiUrl === undefined) throw new OptionError("MISSING_DEPENDENCY", "xpiUrl must be defined to generate updatesJSON", {field: "xpiUrl"});
+        if (options.xpi === undefined) options.xpi = null;
+        if (options.extVersion === undefined) options.extVersion = null;
+    }
+    if (options.xpi === null) {
+        if (options.contents === undefined) throw new OptionError("MISSING_DEPENDENCY", "contents must be defined to generate xpi", {field: "contents"});
+    }
+    if (options.failOnInvalidManifest && options.manifestValidation === undefined) {
+        options.manifestValidation = null;
+    }
+    if (options.manifestValidation === null) {
+        if (options.contents === undefined) throw new OptionError("MISSING_DEPENDENCY", "contents must be defined to generate manifestValidation", {field: "contents"});
+        if (options.manifest === undefined) options.manifest = null;
     }
     if (options.extVersion === null) {
         if (options.manifest === undefined) options.manifest = null;
@@ -615,44 +2199,104 @@ export async function pack<I extends PackInput>(options: I): Promise<TransformPa
         if (options.manifest === undefined) options.manifest = null;
     }
     if (options.crx === null) {
-        if (options.contents === undefined) throw new Error("contents must be defined to generate crx");
+        if (options.contents === undefined) throw new OptionError("MISSING_DEPENDENCY", "contents must be defined to generate crx", {field: "contents"});
         if (options.privateKey === undefined) options.privateKey = null;
         if (options.publicKey === undefined) options.publicKey = null;
     }
     if (options.id === null) {
         if (options.publicKey === undefined) options.publicKey = null;
     }
+    if (options.manifestKey === null) {
+        if (options.publicKey === undefined) options.publicKey = null;
+    }
     if (options.publicKey === null) {
         if (options.privateKey === undefined) options.privateKey = null;
     }
     
     if (options.privateKey === null) {
-        options.rsa ??= new RSA({b: options.keySize || 4096});
-        options.privateKey = Uint8Array.from(options.rsa.exportKey("pkcs8-private-der"));
-        options.publicKey = Uint8Array.from(options.rsa.exportKey("pkcs8-public-der"));
+        if (options.keyAlgorithm == "ecdsa" && !options.rsa) {
+            options.privateKey = generatePrivateKey(undefined, "ecdsa");
+            options.publicKey = generatePublicKey(options.privateKey);
+        } else {
+            options.rsa ??= new RSA({b: options.keySize || 4096});
+            options.privateKey = Uint8Array.from(options.rsa.exportKey("pkcs8-private-der"));
+            options.publicKey = Uint8Array.from(options.rsa.exportKey("pkcs8-public-der"));
+        }
     }
     if (options.publicKey === null) {
-        options.publicKey = Uint8Array.from((options.rsa ??= new RSA(Buffer.from(options.privateKey!), "pkcs8-private-der")).exportKey("pkcs8-public-der"));
+        if (!options.rsa && getKeyAlgorithm(options.privateKey!, "private") == "ecdsa") options.publicKey = generatePublicKey(options.privateKey!);
+        else options.publicKey = Uint8Array.from((options.rsa ??= new RSA(Buffer.from(options.privateKey!), "pkcs8-private-der")).exportKey("pkcs8-public-der"));
+    }
+    if (options.manifestKey === null) {
+        options.manifestKey = generateManifestKey(options.publicKey!);
     }
     if (typeof options.contents == "string") {
-        ({contents: options.contents, manifest: options.manifest} = await packContents(options.contents));
+        let stats;
+        try {
+            stats = await fs.stat(options.contents);
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code == "ENOENT") throw new ManifestError("MANIFEST_MISSING", `Manifest file not found: ${options.contents} doesn't exist`, {path: options.contents, field: "contents", cause: e});
+            throw e;
+        }
+        if (stats.isFile()) options.contents = Uint8Array.from(await fs.readFile(options.contents));
+    }
+    if (typeof options.contents == "string") {
+        ({contents: options.contents, manifest: options.manifest} = await packContents(options.contents, {...options, manifestKey: options.manifestKey ?? undefined}));
+    } else if (options.contents) {
+        const archive = options.contents instanceof Uint8Array ? options.contents : (await packFiles(options.contents, options)).contents;
+        const transformed = await transformArchive(archive, options, true);
+        options.contents = transformed.contents;
+        // A manifest that was given is kept, unless the one in the archive changed
+        if (!options.manifest || transformed.contents != archive) options.manifest = transformed.manifest;
+    }
+    if (options.manifestValidation === null) {
+        const zip = await JSZip.loadAsync(options.contents!);
+        options.manifest ??= await readArchiveManifest(zip);
+        options.manifestValidation = await validateArchive(zip, options.manifest);
+    }
+    if (options.failOnInvalidManifest && !options.manifestValidation!.valid) {
+        throw new ManifestError("MANIFEST_INVALID", "The manifest is invalid:\n" + options.manifestValidation!.errors.map(error => `  ${error.message}`).join("\n"), {path: "manifest.json", field: options.manifestValidation!.errors[0].field});
     }
     if (options.crx === null) {
-        if (options.crxVersion == 3 || options.crxVersion == undefined) options.crx = packCrx3(options.privateKey!, options.publicKey!, options.contents!, options.rsa);
+        const manifestFile = options.manifest ? undefined : (await JSZip.loadAsync(options.contents!)).file("manifest.json");
+        const manifest = options.manifest ?? (manifestFile && parseManifest(await manifestFile.async("string")));
+        if (manifest?.key && generateCrxIdFromManifestKey(manifest.key) != generateCrxId(options.publicKey!)) {
+            throw new ManifestError("MANIFEST_KEY_MISMATCH", `The manifest's key is for ${generateCrxIdFromManifestKey(manifest.key)}, but the extension is signed with the key for ${generateCrxId(options.publicKey!)} (set manifestKey to replace or remove it)`, {path: "manifest.json", field: "key"});
+        }
+        if (options.additionalPrivateKeys?.length) {
+            if (options.crxVersion != 3 && options.crxVersion != undefined) throw new OptionError("INVALID_OPTION", "additionalPrivateKeys can only be used with CRX3", {field: "additionalPrivateKeys"});
+            options.crx = packCrx3([
+                {privateKey: options.privateKey!, publicKey: options.publicKey!, rsa: options.rsa},
+                ...(options.additionalPrivateKeys as Uint8Array[]).map(privateKey => ({privateKey}))
+            ], options.contents!);
+        }
+        else if (options.crxVersion == 3 || options.crxVersion == undefined) options.crx = packCrx3(options.privateKey!, options.publicKey!, options.contents!, options.rsa);
         else if (options.crxVersion == 2) options.crx = packCrx2(options.privateKey!, options.publicKey!, options.contents!, options.rsa);
+        else throw new OptionError("INVALID_OPTION", "crxVersion must be 2 or 3", {field: "crxVersion"});
     }
     if (options.id === null) {
         options.id = generateCrxId(options.publicKey!);
     }
+    if (options.xpi === null) {
+        options.xpi = (await packXpi(options.contents!)).xpi;
+    }
     if (options.extVersion === null) {
-        if (!options.manifest) throw new Error("manifest must be defined to generate extVersion");
+        if (!options.manifest) throw new OptionError("MISSING_DEPENDENCY", "manifest must be defined to generate extVersion", {field: "manifest"});
         options.extVersion = options.manifest.version;
     }
     if (options.minChromeVersion === null) {
         options.minChromeVersion = options.manifest?.minimum_chrome_version || (options.crxVersion == 3 || options.crxVersion == undefined ? "73.0.3683" : undefined);
     }
     if (options.updateXML === null) {
-        options.updateXML = generateUpdateXML(options.id!, options.crxUrl!, options.extVersion!, options.minChromeVersion);
+        options.updateXML = generateUpdateXML(options.id!, options.crxUrl!, options.extVersion!, options.minChromeVersion, options.crx ?? undefined);
+    }
+    if (options.updatesJSON === null) {
+        const {manifest, geckoId} = await packXpi(options.xpi!);
+        options.updatesJSON = generateUpdatesJSON(geckoId, options.xpiUrl!, options.extVersion!, manifest.browser_specific_settings?.gecko?.strict_min_version, options.xpi!);
+    }
+    if (options.watch) {
+        // The keys have been loaded by now, so the watcher signs with the same ones
+        (options as I & {watcher: Watcher}).watcher = new DirectoryWatcher({...options, ...options.watch === true ? {} : options.watch, contents: watchRoot as string}, {contents: options.contents as Uint8Array, manifest: options.manifest!, started});
     }
     return options as any;
 }
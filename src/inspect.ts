@@ -0,0 +1,190 @@
+import { createHash } from "node:crypto";
+import { compareVersions } from "./update-manifest";
+import { keyFingerprint, readFiles, verify, type ChromeManifest } from "./index";
+
+export interface InspectedFile {
+    /** The file's path, relative to the extension's root. */
+    path: string;
+    /** The file's size, in bytes, after decompressing. */
+    size: number;
+    /** The SHA-256 hash of the file, in hexadecimal. */
+    sha256: string;
+}
+
+export interface CrxInspection {
+    /** The extension's ID. */
+    id: string | undefined;
+    /** The fingerprint of the key that the ID comes from, as given by `keyFingerprint`. */
+    fingerprint: string | undefined;
+    /** The CRX format version. */
+    crxVersion: 2 | 3;
+    /** Whether every signature in the file is valid, as checked by `verify`. */
+    valid: boolean;
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest;
+    /** Every file in the extension, in order of their paths. */
+    files: InspectedFile[];
+}
+
+export interface ChangedFile {
+    /** The file's path, relative to the extension's root. */
+    path: string;
+    /** The file before the change. */
+    old: InspectedFile;
+    /** The file after the change. */
+    new: InspectedFile;
+}
+
+export interface ManifestChange {
+    /** The changed field, like `background.service_worker`. Arrays are compared as a whole. */
+    field: string;
+    /** The field's old value, or `undefined` if it was added. */
+    old: unknown;
+    /** The field's new value, or `undefined` if it was removed. */
+    new: unknown;
+}
+
+export interface PermissionEscalation {
+    /** Where the new permission is in the new manifest, like `permissions` or `content_scripts.0.matches`. */
+    field: string;
+    /** The permission or match pattern that the old version didn't have. */
+    permission: string;
+}
+
+export interface CrxDiff {
+    /** The old extension's ID. */
+    oldId: string | undefined;
+    /** The new extension's ID. If it's different, Chrome treats the new file as a different extension. */
+    newId: string | undefined;
+    /** The old extension's version. */
+    oldVersion: string;
+    /** The new extension's version. */
+    newVersion: string;
+    /** Whether the new version isn't higher than the old one, in which case Chrome won't update to it. */
+    versionRegression: boolean;
+    /** Files that are only in the new extension. */
+    added: InspectedFile[];
+    /** Files that are only in the old extension. */
+    removed: InspectedFile[];
+    /** Files whose contents changed. */
+    changed: ChangedFile[];
+    /** Every field of the manifest that changed. */
+    manifestChanges: ManifestChange[];
+    /** Permissions and host patterns that the old version didn't have. Chrome disables the extension after updating until the user approves them. */
+    permissionEscalations: PermissionEscalation[];
+}
+
+/**
+ * Describe a CRX file: its ID, key, manifest and files.
+ * 
+ * @param crx The CRX file.
+ */
+export async function inspect(crx: Uint8Array): Promise<CrxInspection> {
+    const {files, manifest, id} = await readFiles(crx);
+    const verification = verify(crx);
+    const publicKey = verification.proofs.find(proof => proof.id == id)?.publicKey;
+    return {
+        id,
+        fingerprint: publicKey && keyFingerprint(publicKey),
+        crxVersion: verification.crxVersion,
+        valid: verification.valid,
+        manifest,
+        files: [...files]
+            .map(([path, data]) => ({path, size: data.length, sha256: createHash("sha256").update(data).digest("hex")}))
+            .sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0)
+    };
+}
+
+function diffManifests(oldValue: unknown, newValue: unknown, field: string, changes: ManifestChange[]) {
+    const isObject = (value: unknown): value is {[x: string]: unknown} => typeof value == "object" && value != null && !Array.isArray(value);
+    if (isObject(oldValue) && isObject(newValue)) {
+        for (const key of new Set([...Object.keys(oldValue), ...Object.keys(newValue)])) {
+            diffManifests(oldValue[key], newValue[key], field ? `${field}.${key}` : key, changes);
+        }
+    } else if (JSON.stringify(oldValue) != JSON.stringify(newValue)) {
+        changes.push({field, old: oldValue, new: newValue});
+    }
+}
+
+/**
+ * Whether a permission is a host pattern rather than an API permission. MV2 lists both in `permissions`.
+ */
+function isHostPattern(permission: string): boolean {
+    return permission == "<all_urls>" || permission.includes("://");
+}
+
+/**
+ * Whether a match pattern from the old version already grants everything that one from the new version does.
+ * @see {@link https://developer.chrome.com/docs/extensions/develop/concepts/match-patterns}
+ */
+function patternCovers(oldPattern: string, newPattern: string): boolean {
+    if (oldPattern == newPattern) return true;
+    const parse = (pattern: string) => pattern == "<all_urls>" ? {scheme: "<all_urls>", host: "*", path: "/*"} : /^(?<scheme>[^:]+):\/\/(?<host>[^/]*)(?<path>\/.*)$/.exec(pattern)?.groups;
+    const oldParts = parse(oldPattern), newParts = parse(newPattern);
+    if (!oldParts || !newParts) return false;
+    
+    const schemeCovered = oldParts.scheme == "<all_urls>" || oldParts.scheme == newParts.scheme
+        || (oldParts.scheme == "*" && (newParts.scheme == "http" || newParts.scheme == "https" || newParts.scheme == "*"));
+    const hostCovered = oldParts.host == "*" || oldParts.host == newParts.host
+        || (oldParts.host.startsWith("*.") && newParts.host != "*" && (newParts.host.replace(/^\*\./, "") == oldParts.host.slice(2) || newParts.host.endsWith(oldParts.host.slice(1))));
+    const pathCovered = new RegExp(`^${oldParts.path.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`).test(newParts.path);
+    return schemeCovered && hostCovered && pathCovered;
+}
+
+function getPermissions(manifest: ChromeManifest): {apis: [string, string][], hosts: [string, string][]} {
+    // The manifest hasn't been validated, so its fields could be anything
+    const m: {permissions?: unknown, host_permissions?: unknown, content_scripts?: unknown} = manifest;
+    const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+    const apis: [string, string][] = [], hosts: [string, string][] = [];
+    for (const permission of list(m.permissions)) {
+        if (typeof permission == "string") (isHostPattern(permission) ? hosts : apis).push(["permissions", permission]);
+    }
+    for (const pattern of list(m.host_permissions)) {
+        if (typeof pattern == "string") hosts.push(["host_permissions", pattern]);
+    }
+    list(m.content_scripts).forEach((script, i) => {
+        for (const pattern of list(typeof script == "object" && script != null && "matches" in script ? script.matches : undefined)) {
+            if (typeof pattern == "string") hosts.push([`content_scripts.${i}.matches`, pattern]);
+        }
+    });
+    return {apis, hosts};
+}
+
+/**
+ * Compare two versions of an extension, such as the one users have and the one about to be released.
+ * 
+ * Host patterns are compared wherever they're listed, so moving them from `permissions` to `host_permissions` (as in a move to MV3) isn't an escalation, and neither is a pattern that an old one already covers.
+ * 
+ * @param oldCrx The CRX file of the old version.
+ * @param newCrx The CRX file of the new version.
+ */
+export async function diff(oldCrx: Uint8Array, newCrx: Uint8Array): Promise<CrxDiff> {
+    const [oldInspection, newInspection] = [await inspect(oldCrx), await inspect(newCrx)];
+    const oldFiles = new Map(oldInspection.files.map(file => [file.path, file]));
+    const newFiles = new Map(newInspection.files.map(file => [file.path, file]));
+    
+    const manifestChanges: ManifestChange[] = [];
+    diffManifests(oldInspection.manifest, newInspection.manifest, "", manifestChanges);
+    
+    const oldPermissions = getPermissions(oldInspection.manifest), newPermissions = getPermissions(newInspection.manifest);
+    const oldApis = new Set(oldPermissions.apis.map(([, permission]) => permission));
+    const permissionEscalations: PermissionEscalation[] = [
+        ...newPermissions.apis.filter(([, permission]) => !oldApis.has(permission)),
+        ...newPermissions.hosts.filter(([, pattern]) => !oldPermissions.hosts.some(([, oldPattern]) => patternCovers(oldPattern, pattern)))
+    ].map(([field, permission]) => ({field, permission}));
+    
+    return {
+        oldId: oldInspection.id,
+        newId: newInspection.id,
+        oldVersion: oldInspection.manifest.version,
+        newVersion: newInspection.manifest.version,
+        versionRegression: compareVersions(newInspection.manifest.version, oldInspection.manifest.version) <= 0,
+        added: newInspection.files.filter(file => !oldFiles.has(file.path)),
+        removed: oldInspection.files.filter(file => !newFiles.has(file.path)),
+        changed: newInspection.files
+            .filter(file => oldFiles.has(file.path) && oldFiles.get(file.path)!.sha256 != file.sha256)
+            .map(file => ({path: file.path, old: oldFiles.get(file.path)!, new: file})),
+        manifestChanges,
+        permissionEscalations
+    };
+}
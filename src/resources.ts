@@ -0,0 +1,279 @@
+import type { ChromeManifest, ManifestIssue, ManifestValidation } from "./index";
+
+/**
+ * The most static rulesets an extension can declare
+ * @constant
+ * @see {@link https://developer.chrome.com/docs/extensions/reference/api/declarativeNetRequest#property-MAX_NUMBER_OF_STATIC_RULESETS}
+ */
+const MAX_NUMBER_OF_STATIC_RULESETS = 100;
+
+/**
+ * The most static rulesets that can be enabled at once
+ * @constant
+ */
+const MAX_NUMBER_OF_ENABLED_STATIC_RULESETS = 50;
+
+/**
+ * How many rules in enabled static rulesets Chrome always allows. More are only enabled if the global limit, which is shared with other extensions, has room.
+ * @constant
+ */
+const GUARANTEED_MINIMUM_STATIC_RULES = 30000;
+
+/**
+ * The most rules with a `regexFilter` that a ruleset can have
+ * @constant
+ */
+const MAX_NUMBER_OF_REGEX_RULES = 1000;
+
+const ruleActionTypes = ["block", "redirect", "allow", "upgradeScheme", "modifyHeaders", "allowAllRequests"];
+const resourceTypes = ["main_frame", "sub_frame", "stylesheet", "script", "image", "font", "object", "xmlhttprequest", "ping", "csp_report", "media", "websocket", "webtransport", "webbundle", "other"];
+const requestMethods = ["connect", "delete", "get", "head", "options", "patch", "post", "put", "other"];
+const domainLists = ["domains", "excludedDomains", "initiatorDomains", "excludedInitiatorDomains", "requestDomains", "excludedRequestDomains"];
+
+function isObject(value: unknown): value is {[x: string]: unknown} {
+    return typeof value == "object" && value != null && !Array.isArray(value);
+}
+
+function isOneOf(value: unknown, options: readonly string[]): boolean {
+    return typeof value == "string" && options.includes(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+    return Number.isInteger(value) && (value as number) >= 1;
+}
+
+function readJSON(data: Uint8Array): unknown {
+    return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * Check one rule from a static ruleset, returning what's wrong with it.
+ * @see {@link https://developer.chrome.com/docs/extensions/reference/api/declarativeNetRequest#type-Rule}
+ */
+function checkRule(rule: unknown): string[] {
+    if (!isObject(rule)) return ["must be an object"];
+    const problems: string[] = [];
+    if (rule.priority !== undefined && !isPositiveInteger(rule.priority)) problems.push("has a priority that isn't a positive integer");
+    
+    const {action, condition} = rule;
+    if (!isObject(action)) {
+        problems.push("must have an action object");
+    } else if (!isOneOf(action.type, ruleActionTypes)) {
+        problems.push(`has an unknown action type: ${action.type}`);
+    } else if (action.type == "redirect") {
+        const redirect = isObject(action.redirect) ? action.redirect : {};
+        const targets = ["url", "extensionPath", "transform", "regexSubstitution"].filter(key => redirect[key] !== undefined);
+        if (targets.length != 1) problems.push("must redirect to exactly one of url, extensionPath, transform or regexSubstitution");
+        else if (targets[0] == "extensionPath" && !(typeof redirect.extensionPath == "string" && redirect.extensionPath.startsWith("/"))) problems.push("has an extensionPath that doesn't start with /");
+        else if (targets[0] == "regexSubstitution" && !(isObject(condition) && condition.regexFilter !== undefined)) problems.push("uses regexSubstitution without a regexFilter");
+    } else if (action.type == "modifyHeaders") {
+        const lists = ["requestHeaders", "responseHeaders"].filter(key => action[key] !== undefined);
+        if (!lists.length) problems.push("must modify requestHeaders or responseHeaders");
+        for (const key of lists) {
+            if (!Array.isArray(action[key]) || !action[key].length) {
+                problems.push(`must have a non-empty array for ${key}`);
+                continue;
+            }
+            for (const header of action[key]) {
+                if (!isObject(header) || typeof header.header != "string" || !header.header) problems.push(`has a header in ${key} without a name`);
+                else if (!isOneOf(header.operation, ["append", "set", "remove"])) problems.push(`has an unknown operation for the ${header.header} header: ${header.operation}`);
+                else if (header.operation == "remove" ? header.value !== undefined : typeof header.value != "string") problems.push(`${header.operation == "remove" ? "can't have" : "must have"} a value for the ${header.header} header with the ${header.operation} operation`);
+            }
+        }
+    }
+    
+    if (!isObject(condition)) {
+        problems.push("must have a condition object");
+        return problems;
+    }
+    if (condition.urlFilter !== undefined && condition.regexFilter !== undefined) problems.push("can't have both a urlFilter and a regexFilter");
+    if (condition.urlFilter !== undefined) {
+        if (typeof condition.urlFilter != "string" || !condition.urlFilter) problems.push("has an empty urlFilter");
+        else if (/[^\x00-\x7f]/.test(condition.urlFilter)) problems.push("has a urlFilter with characters that aren't ASCII");
+        else if (condition.urlFilter.startsWith("||*")) problems.push("has a urlFilter that starts with ||*, which should be written as just *");
+    }
+    if (condition.regexFilter !== undefined && (typeof condition.regexFilter != "string" || !condition.regexFilter)) problems.push("has an empty regexFilter");
+    if (condition.domainType !== undefined && condition.domainType != "firstParty" && condition.domainType != "thirdParty") problems.push(`has an unknown domainType: ${condition.domainType}`);
+    if (condition.tabIds !== undefined || condition.excludedTabIds !== undefined) problems.push("can't use tabIds in a static ruleset");
+    for (const key of domainLists) {
+        if (condition[key] === undefined) continue;
+        if (!Array.isArray(condition[key]) || !condition[key].every((domain: unknown) => typeof domain == "string")) problems.push(`must have an array of strings for ${key}`);
+        else if (!key.startsWith("excluded") && !condition[key].length) problems.push(`has an empty ${key} list, which would match nothing`);
+    }
+    for (const [included, excluded, known] of [["resourceTypes", "excludedResourceTypes", resourceTypes], ["requestMethods", "excludedRequestMethods", requestMethods]] as const) {
+        for (const key of [included, excluded]) {
+            if (condition[key] === undefined) continue;
+            if (!Array.isArray(condition[key])) problems.push(`must have an array for ${key}`);
+            else if (key == included && !condition[key].length) problems.push(`has an empty ${key} list, which would match nothing`);
+            else for (const value of condition[key]) if (!isOneOf(value, known)) problems.push(`has an unknown value in ${key}: ${value}`);
+        }
+        if (Array.isArray(condition[included]) && Array.isArray(condition[excluded])) {
+            for (const value of condition[included]) if (condition[excluded].includes(value)) problems.push(`both includes and excludes ${value}`);
+        }
+    }
+    if (isObject(action) && action.type == "allowAllRequests"
+        && !(Array.isArray(condition.resourceTypes) && condition.resourceTypes.length && condition.resourceTypes.every((type: unknown) => type == "main_frame" || type == "sub_frame"))) {
+        problems.push("uses allowAllRequests, so its resourceTypes must only be main_frame or sub_frame");
+    }
+    return problems;
+}
+
+function validateRulesets(m: {[x: string]: unknown}, files: Map<string, Uint8Array>, errors: ManifestIssue[], warnings: ManifestIssue[]) {
+    const resources = isObject(m.declarative_net_request) ? m.declarative_net_request.rule_resources : undefined;
+    if (!Array.isArray(resources)) return;
+    if (!(Array.isArray(m.permissions) && m.permissions.some((permission: unknown) => permission == "declarativeNetRequest" || permission == "declarativeNetRequestWithHostAccess"))) {
+        warnings.push({field: "declarative_net_request", message: "declarative_net_request needs the declarativeNetRequest or declarativeNetRequestWithHostAccess permission, or Chrome ignores its rulesets"});
+    }
+    if (resources.length > MAX_NUMBER_OF_STATIC_RULESETS) {
+        errors.push({field: "declarative_net_request.rule_resources", message: `declarative_net_request.rule_resources has ${resources.length} rulesets, but Chrome allows at most ${MAX_NUMBER_OF_STATIC_RULESETS}`});
+    }
+    const enabled = resources.filter(resource => isObject(resource) && resource.enabled === true).length;
+    if (enabled > MAX_NUMBER_OF_ENABLED_STATIC_RULESETS) {
+        errors.push({field: "declarative_net_request.rule_resources", message: `declarative_net_request.rule_resources enables ${enabled} rulesets, but Chrome allows at most ${MAX_NUMBER_OF_ENABLED_STATIC_RULESETS}`});
+    }
+    
+    const ids = new Set<string>();
+    let enabledRules = 0;
+    resources.forEach((resource: unknown, i: number) => {
+        const field = `declarative_net_request.rule_resources.${i}`;
+        if (!isObject(resource)) return;
+        if (typeof resource.id != "string" || !resource.id) errors.push({field: `${field}.id`, message: `${field}.id must be a non-empty string`});
+        else if (resource.id.startsWith("_")) errors.push({field: `${field}.id`, message: `${field}.id can't start with _, which is reserved`});
+        else if (ids.has(resource.id)) errors.push({field: `${field}.id`, message: `${field}.id is ${resource.id}, which another ruleset already uses`});
+        else ids.add(resource.id);
+        if (typeof resource.enabled != "boolean") errors.push({field: `${field}.enabled`, message: `${field}.enabled must be a boolean`});
+        
+        // validateManifest reports rulesets that don't exist
+        const data = typeof resource.path == "string" ? files.get(resource.path.replace(/^\.?\//, "")) : undefined;
+        if (!data) return;
+        let rules: unknown;
+        try {
+            rules = readJSON(data);
+        } catch (e) {
+            errors.push({field: `${field}.path`, message: `${resource.path} is not valid JSON: ${(e as Error).message}`});
+            return;
+        }
+        if (!Array.isArray(rules)) {
+            errors.push({field: `${field}.path`, message: `${resource.path} must be an array of rules`});
+            return;
+        }
+        
+        const ruleIds = new Set<number>();
+        rules.forEach((rule, j) => {
+            const name = isObject(rule) && isPositiveInteger(rule.id) ? `rule ${rule.id}` : `the rule at index ${j}`;
+            if (isObject(rule)) {
+                if (!isPositiveInteger(rule.id)) errors.push({field: `${field}.path`, message: `${resource.path}: ${name} must have an id that's a positive integer`});
+                else if (ruleIds.has(rule.id)) errors.push({field: `${field}.path`, message: `${resource.path}: ${name} has the same id as another rule`});
+                else ruleIds.add(rule.id);
+            }
+            for (const problem of checkRule(rule)) errors.push({field: `${field}.path`, message: `${resource.path}: ${name} ${problem}`});
+        });
+        const regexRules = rules.filter(rule => isObject(rule) && isObject(rule.condition) && rule.condition.regexFilter !== undefined).length;
+        if (regexRules > MAX_NUMBER_OF_REGEX_RULES) {
+            errors.push({field: `${field}.path`, message: `${resource.path} has ${regexRules} rules with a regexFilter, but Chrome allows at most ${MAX_NUMBER_OF_REGEX_RULES}`});
+        }
+        if (resource.enabled === true) enabledRules += rules.length;
+    });
+    if (enabledRules > GUARANTEED_MINIMUM_STATIC_RULES) {
+        warnings.push({field: "declarative_net_request.rule_resources", message: `The enabled rulesets have ${enabledRules} rules, but Chrome only guarantees ${GUARANTEED_MINIMUM_STATIC_RULES}; the rest are only enabled if the limit shared with other extensions has room`});
+    }
+}
+
+/**
+ * Check one `messages.json` file, returning the names of its messages (in lowercase, since they aren't case-sensitive) if it could be read.
+ * @see {@link https://developer.chrome.com/docs/extensions/reference/api/i18n#overview-predefined}
+ */
+function checkMessages(path: string, data: Uint8Array, errors: ManifestIssue[]): Set<string> | undefined {
+    let messages: unknown;
+    try {
+        messages = readJSON(data);
+    } catch (e) {
+        errors.push({field: "default_locale", message: `${path} is not valid JSON: ${(e as Error).message}`});
+        return undefined;
+    }
+    if (!isObject(messages)) {
+        errors.push({field: "default_locale", message: `${path} must be an object of messages`});
+        return undefined;
+    }
+    for (const [name, message] of Object.entries(messages)) {
+        if (!/^[A-Za-z0-9_]+$/.test(name)) errors.push({field: "default_locale", message: `${path}: the message name ${name} can only have letters, digits and _`});
+        if (!isObject(message) || typeof message.message != "string") {
+            errors.push({field: "default_locale", message: `${path}: ${name} must be an object with a message string`});
+            continue;
+        }
+        if (message.description !== undefined && typeof message.description != "string") errors.push({field: "default_locale", message: `${path}: ${name}.description must be a string`});
+        if (message.placeholders !== undefined) {
+            if (!isObject(message.placeholders)) errors.push({field: "default_locale", message: `${path}: ${name}.placeholders must be an object`});
+            else for (const [placeholder, value] of Object.entries(message.placeholders)) {
+                if (!isObject(value) || typeof value.content != "string") errors.push({field: "default_locale", message: `${path}: ${name}.placeholders.${placeholder} must have a content string`});
+            }
+        }
+    }
+    return new Set(Object.keys(messages).map(name => name.toLowerCase()));
+}
+
+function findMessageReferences(value: unknown, field: string, references: [string, string][]) {
+    if (typeof value == "string") {
+        for (const match of value.matchAll(/__MSG_([A-Za-z0-9_@]+?)__/g)) references.push([field, match[1]]);
+    } else if (typeof value == "object" && value != null) {
+        for (const [key, item] of Object.entries(value)) findMessageReferences(item, field ? `${field}.${key}` : key, references);
+    }
+}
+
+function validateLocales(m: {[x: string]: unknown}, files: Map<string, Uint8Array>, errors: ManifestIssue[]) {
+    const locales = new Set<string>();
+    for (const path of files.keys()) {
+        const parts = path.split("/");
+        if (parts[0] == "_locales" && parts.length > 2) locales.add(parts[1]);
+    }
+    const defaultLocale = typeof m.default_locale == "string" ? m.default_locale : undefined;
+    if (defaultLocale == undefined && locales.size) {
+        errors.push({field: "default_locale", message: "default_locale is required, since the extension has a _locales folder"});
+    } else if (defaultLocale != undefined && !locales.size) {
+        errors.push({field: "default_locale", message: "default_locale is set, but the extension has no _locales folder"});
+    } else if (defaultLocale != undefined && !locales.has(defaultLocale)) {
+        errors.push({field: "default_locale", message: `default_locale is ${defaultLocale}, but there's no _locales/${defaultLocale} folder`});
+    }
+    
+    let defaultMessages: Set<string> | undefined;
+    for (const locale of [...locales].sort()) {
+        const path = `_locales/${locale}/messages.json`;
+        const data = files.get(path);
+        if (!data) {
+            errors.push({field: "default_locale", message: `${path} is missing`});
+            continue;
+        }
+        const names = checkMessages(path, data, errors);
+        if (locale == defaultLocale) defaultMessages = names;
+    }
+    
+    const references: [string, string][] = [];
+    findMessageReferences(m, "", references);
+    for (const [field, name] of references) {
+        // Names starting with @@ are predefined, like @@extension_id
+        if (name.startsWith("@@")) continue;
+        if (defaultLocale == undefined) errors.push({field, message: `${field} uses __MSG_${name}__, but there's no default_locale to look it up in`});
+        else if (defaultMessages && !defaultMessages.has(name.toLowerCase())) errors.push({field, message: `${field} uses __MSG_${name}__, but _locales/${defaultLocale}/messages.json has no message called ${name}`});
+    }
+}
+
+/**
+ * Check the files behind an extension's manifest that `validateManifest` doesn't read: its `declarative_net_request` rulesets and its `_locales`.
+ * 
+ * Rulesets are checked for valid JSON, rule IDs that are unique positive integers, the shapes of actions and conditions, and Chrome's limits on how many rulesets and rules there can be.
+ * Locales are checked for a `default_locale` that's set if and only if there's a `_locales` folder, well-formed `messages.json` files, and `__MSG_name__` placeholders in the manifest that are in the default locale's messages.
+ * 
+ * @param manifest The manifest, parsed as JSON.
+ * @param files The extension's files, by their paths relative to its root and separated with `/`. Only the rulesets and the files in `_locales` are needed.
+ * 
+ * @returns The errors and warnings that were found.
+ */
+export function validateResources(manifest: ChromeManifest, files: Map<string, Uint8Array>): ManifestValidation {
+    const errors: ManifestIssue[] = [];
+    const warnings: ManifestIssue[] = [];
+    if (isObject(manifest)) {
+        validateRulesets(manifest, files, errors, warnings);
+        validateLocales(manifest, files, errors);
+    }
+    return {valid: errors.length == 0, errors, warnings};
+}
@@ -0,0 +1,222 @@
+import { createHash } from "node:crypto";
+import { ManifestError, PackCrxError } from "./errors";
+
+export interface UpdateCheck {
+    /** The URL where the extension's CRX file is hosted. */
+    codebase?: string;
+    /** The extension's version. */
+    version?: string;
+    /** The minimum Chrome version that the extension can be installed on. */
+    prodversionmin?: string;
+    /** The SHA-256 hash of the CRX file, in hexadecimal. Chrome refuses the download if it doesn't match. */
+    hash_sha256?: string;
+    /** The size of the CRX file, in bytes. */
+    size?: number;
+    /** The status of the update check, like `"ok"` or `"noupdate"`. */
+    status?: string;
+}
+
+export interface UpdateManifestApp {
+    /** The extension's ID. */
+    appid: string;
+    /** Where to find the extension's latest version. */
+    updatecheck: UpdateCheck;
+}
+
+/**
+ * The order attributes are written in, so that output stays the same as the original `generateUpdateXML`.
+ * @constant
+ */
+const updateCheckAttributes: (keyof UpdateCheck)[] = ["codebase", "version", "prodversionmin", "hash_sha256", "size", "status"];
+
+function escapeXML(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function unescapeXML(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+        if (name[0] == "#") return String.fromCodePoint(name[1] == "x" || name[1] == "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+        return {amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'"}[name.toLowerCase()]!;
+    });
+}
+
+/**
+ * Compare two extension versions, which are up to four dot-separated integers.
+ * 
+ * @param a The first version.
+ * @param b The second version.
+ * 
+ * @returns A negative number if `a` is older than `b`, a positive number if it's newer, or 0 if they're the same.
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split(".").map(Number), partsB = b.split(".").map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const difference = (partsA[i] || 0) - (partsB[i] || 0);
+        if (difference) return difference;
+    }
+    return 0;
+}
+
+/** A part of an extension version to increment: the first, second, third or fourth. */
+export type VersionBump = "major" | "minor" | "patch" | "build";
+
+/**
+ * Increment one part of an extension version, setting the parts after it to 0. Missing parts count as 0, so `1.2` becomes `1.2.0.1` with `"build"`.
+ * 
+ * @param version The version, which is up to four dot-separated integers.
+ * @param bump Which part to increment.
+ * 
+ * @returns The new version.
+ */
+export function incrementVersion(version: string, bump: VersionBump): string {
+    const index = ["major", "minor", "patch", "build"].indexOf(bump);
+    const parts = version.split(".");
+    if (index == -1 || parts.length > 4 || !parts.every(part => /^(0|[1-9]\d*)$/.test(part))) {
+        throw new ManifestError("MANIFEST_INVALID", `Can't increment the ${bump} part of version ${version}`, {field: "version"});
+    }
+    const numbers = parts.map(Number);
+    while (numbers.length <= index) numbers.push(0);
+    numbers[index]++;
+    if (numbers[index] > 65535) throw new ManifestError("MANIFEST_INVALID", `Incrementing the ${bump} part of version ${version} makes it bigger than 65535`, {field: "version"});
+    return numbers.map((number, i) => i > index ? 0 : number).join(".");
+}
+
+/**
+ * Find the `hash_sha256` and `size` attributes for a CRX file.
+ * 
+ * @param crx The CRX file.
+ */
+export function getCrxHashAndSize(crx: Uint8Array): Pick<UpdateCheck, "hash_sha256" | "size"> {
+    return {
+        hash_sha256: createHash("sha256").update(crx).digest("hex"),
+        size: crx.length
+    };
+}
+
+/**
+ * Generate an updates XML file with any number of extensions in it.
+ * 
+ * @param apps The extensions to list.
+ * 
+ * @returns The updates XML text
+ */
+export function generateUpdateManifest(apps: UpdateManifestApp[]): string {
+    return `<?xml version='1.0' encoding='UTF-8'?>
+<gupdate xmlns='http://www.google.com/update2/response' protocol='2.0'>
+${apps.map(generateAppElement).join("")}</gupdate>`;
+}
+
+/**
+ * Write the `<app>` element for one extension, indented to go inside `<gupdate>`.
+ */
+function generateAppElement(app: UpdateManifestApp): string {
+    return `  <app appid='${escapeXML(app.appid)}'>
+    <updatecheck${updateCheckAttributes.filter(name => app.updatecheck[name] !== undefined && app.updatecheck[name] !== "").map(name => ` ${name}='${escapeXML(`${app.updatecheck[name]}`)}'`).join("")} />
+  </app>
+`;
+}
+
+/**
+ * Find the tags in an updates XML file, with comments blanked out so that the tags' indices are still the same as in `xml`.
+ */
+function matchTags(xml: string): {tag: string, index: number, closing: boolean, name: string, attributes: {[x: string]: string}, selfClosing: boolean}[] {
+    const tags = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    return [...xml.replace(/<!--[\s\S]*?-->/g, comment => " ".repeat(comment.length)).matchAll(tags)].map(match => {
+        const attributes: {[x: string]: string} = {};
+        for (const [, key, , doubleQuoted, singleQuoted] of match[3].matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+            attributes[key] = unescapeXML(doubleQuoted ?? singleQuoted);
+        }
+        return {tag: match[0], index: match.index, closing: match[1] == "/", name: match[2], attributes, selfClosing: match[4] == "/"};
+    });
+}
+
+/**
+ * Parse an updates XML file back into the extensions listed in it.
+ * 
+ * @param xml The updates XML text
+ * 
+ * @returns The extensions in the file, in order.
+ */
+export function parseUpdateManifest(xml: string): UpdateManifestApp[] {
+    const apps: UpdateManifestApp[] = [];
+    let app: UpdateManifestApp | undefined;
+    let foundRoot = false;
+    for (const {closing, name, attributes, selfClosing} of matchTags(xml)) {
+        if (name == "gupdate") {
+            foundRoot = true;
+        } else if (name == "app") {
+            if (closing) {
+                app = undefined;
+            } else {
+                if (attributes.appid == undefined) throw new PackCrxError("UPDATE_XML_INVALID", "An app in the updates XML has no appid", {field: "appid"});
+                app = {appid: attributes.appid, updatecheck: {}};
+                apps.push(app);
+                if (selfClosing) app = undefined;
+            }
+        } else if (name == "updatecheck" && !closing && app) {
+            for (const key of updateCheckAttributes) {
+                if (attributes[key] == undefined) continue;
+                if (key == "size") app.updatecheck.size = Number(attributes[key]);
+                else app.updatecheck[key] = attributes[key];
+            }
+        }
+    }
+    if (!foundRoot) throw new PackCrxError("UPDATE_XML_INVALID", "The text given is not an updates XML file");
+    return apps;
+}
+
+/**
+ * Add an extension to an updates XML file, or replace it if it's already there.
+ * 
+ * Only that extension's `<app>` element is written. The rest of the file, including the other extensions and anything in it that `parseUpdateManifest` doesn't read, is kept as it is.
+ * 
+ * @param xml The updates XML text
+ * @param app The extension to add or replace, matched by its `appid`.
+ * 
+ * @returns The new updates XML text
+ */
+export function setUpdateManifestApp(xml: string, app: UpdateManifestApp): string {
+    // Throws if this isn't an updates XML file
+    parseUpdateManifest(xml);
+    const tags = matchTags(xml);
+    const start = tags.findIndex(tag => tag.name == "app" && !tag.closing && tag.attributes.appid == app.appid);
+    if (start != -1) {
+        const end = tags[start].selfClosing ? start : tags.findIndex((tag, i) => i > start && tag.name == "app" && tag.closing);
+        // The element's indentation and the line break after it are already there
+        const element = generateAppElement(app).trim();
+        if (end == -1) return xml.slice(0, tags[start].index) + element + xml.slice(tags[start].index + tags[start].tag.length);
+        return xml.slice(0, tags[start].index) + element + xml.slice(tags[end].index + tags[end].tag.length);
+    }
+    const rootEnd = tags.find(tag => tag.name == "gupdate" && tag.closing);
+    if (rootEnd) return xml.slice(0, rootEnd.index) + generateAppElement(app) + xml.slice(rootEnd.index);
+    const root = tags.find(tag => tag.name == "gupdate")!;
+    return xml.slice(0, root.index) + root.tag.replace(/\s*\/>$/, ">") + "\n" + generateAppElement(app) + "</gupdate>" + xml.slice(root.index + root.tag.length);
+}
+
+/**
+ * Generate the updates XML file for [serving an extension yourself](https://developer.chrome.com/docs/extensions/how-to/distribute/host-on-linux).
+ * 
+ * @param crxId The extension's ID.
+ * @param url The URL where the extension's CRX file will be hosted.
+ * @param version The extension's version.
+ * @param minChromeVersion The minimum Chrome version that the extension can be installed on.
+ * @param crx The CRX file itself, to add its `hash_sha256` and `size`.
+ * 
+ * @returns The updates XML text
+ */
+export function generateUpdateXML(crxId: string, url: string, version: string, minChromeVersion?: string, crx?: Uint8Array): string {
+    return generateUpdateManifest([{
+        appid: crxId,
+        updatecheck: {
+            codebase: url,
+            version,
+            prodversionmin: minChromeVersion,
+            ...crx && getCrxHashAndSize(crx)
+        }
+    }]);
+}
@@ -0,0 +1,180 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { compareVersions, generateUpdateManifest, getCrxHashAndSize, type UpdateManifestApp } from "./update-manifest";
+import { CrxFormatError } from "./errors";
+import { readFiles } from "./index";
+
+export interface HostedExtension {
+    /** The CRX file. */
+    crx: Uint8Array;
+    /** The extension's ID. Read from `crx` if not given. */
+    id?: string | null;
+    /** The extension's version. Read from `manifest` (or `crx`) if not given. */
+    extVersion?: string | null;
+    /** The minimum Chrome version the extension requires. Read from `manifest` (or `crx`) if not given. */
+    minChromeVersion?: string | null;
+    /** The extension's manifest. Only used to find `extVersion` and `minChromeVersion`. */
+    manifest?: {version: string, minimum_chrome_version?: string} | null;
+    /** The path the CRX file is served at. Defaults to `/<id>.crx`. */
+    path?: string;
+}
+
+export interface UpdateServerOptions {
+    /** The extensions to serve. The objects returned by `pack` can be given directly. */
+    extensions: HostedExtension[];
+    /** The path the updates XML file is served at. Defaults to `/updates.xml`. */
+    updatePath?: string;
+    /** The URL the server can be reached at, for the links to CRX files. Defaults to `http://` and the address that the request was received on, since the `Host` header can be set to anything by the client. */
+    baseUrl?: string;
+}
+
+interface ResolvedExtension {
+    crx: Uint8Array;
+    id: string;
+    version: string;
+    minChromeVersion?: string;
+    path: string;
+    hash_sha256: string;
+    size: number;
+}
+
+async function resolveExtension(extension: HostedExtension): Promise<ResolvedExtension> {
+    let {id, extVersion: version, minChromeVersion, manifest} = extension;
+    if (!id || !version) {
+        const files = await readFiles(extension.crx);
+        id ||= files.id;
+        manifest ??= files.manifest;
+        if (!id) throw new CrxFormatError("INVALID_HEADER", "Could not find the ID of an extension to serve", {field: "id"});
+    }
+    version ||= manifest!.version;
+    minChromeVersion ??= manifest?.minimum_chrome_version;
+    const {hash_sha256, size} = getCrxHashAndSize(extension.crx);
+    return {
+        crx: extension.crx,
+        id,
+        version,
+        minChromeVersion: minChromeVersion ?? undefined,
+        path: extension.path ?? `/${id}.crx`,
+        hash_sha256: hash_sha256!,
+        size: size!
+    };
+}
+
+/**
+ * Read the extensions that Chrome is asking about from an update check's `x` parameters, which look like `id=<id>&v=<version>&uc`.
+ */
+function parseUpdateQuery(searchParams: URLSearchParams): {id: string, version?: string}[] {
+    return searchParams.getAll("x").flatMap(x => {
+        const params = new URLSearchParams(x);
+        const id = params.get("id");
+        return id ? [{id, version: params.get("v") || undefined}] : [];
+    });
+}
+
+/**
+ * The origin of the server's end of a request's connection, which (unlike the `Host` header) the client can't choose.
+ */
+function getLocalOrigin(request: IncomingMessage): string {
+    const {localAddress = "localhost", localPort} = request.socket;
+    return `http://${localAddress.includes(":") ? `[${localAddress}]` : localAddress}:${localPort}`;
+}
+
+function serveCrx(request: IncomingMessage, response: ServerResponse, extension: ResolvedExtension) {
+    const etag = `"${extension.hash_sha256}"`;
+    response.setHeader("Content-Type", "application/x-chrome-extension");
+    response.setHeader("Accept-Ranges", "bytes");
+    response.setHeader("ETag", etag);
+    
+    if (request.headers["if-none-match"]?.split(",").some(tag => tag.trim() == etag || tag.trim() == "*")) {
+        response.writeHead(304).end();
+        return;
+    }
+    
+    let start = 0, end = extension.size - 1;
+    const range = request.headers.range;
+    // Ranges are ignored if the file has changed since the client got its first part
+    const ifRange = request.headers["if-range"];
+    // Only a single range is served. Anything else, like several ranges or a range that doesn't parse, gets the whole file.
+    const match = range && (ifRange == undefined || ifRange == etag) ? /^bytes=(\d*)-(\d*)$/.exec(range.trim()) : null;
+    if (match && (match[1] || match[2]) && !(match[1] && match[2] && Number(match[2]) < Number(match[1]))) {
+        if (match[1]) {
+            start = Number(match[1]);
+            if (match[2]) end = Math.min(Number(match[2]), end);
+        } else {
+            start = Math.max(extension.size - Number(match[2]), 0);
+        }
+        if (start > end) {
+            response.writeHead(416, {"Content-Range": `bytes */${extension.size}`}).end();
+            return;
+        }
+        response.writeHead(206, {
+            "Content-Range": `bytes ${start}-${end}/${extension.size}`,
+            "Content-Length": end - start + 1
+        });
+    } else {
+        response.writeHead(200, {"Content-Length": extension.size});
+    }
+    response.end(request.method == "HEAD" ? undefined : extension.crx.subarray(start, end + 1));
+}
+
+/**
+ * Create an HTTP server that hosts extensions and answers Chrome's update checks, for [serving extensions yourself](https://developer.chrome.com/docs/extensions/how-to/distribute/host-on-linux).
+ * 
+ * Update checks get an entry for each extension that Chrome asks about, with `status='noupdate'` if it already has the newest version. Without any `x` parameters, every extension is listed.
+ * 
+ * The server isn't started; call `listen` on it.
+ * 
+ * @param options The extensions to serve, and where.
+ */
+export async function createUpdateServer(options: UpdateServerOptions): Promise<Server> {
+    const extensions = await Promise.all(options.extensions.map(resolveExtension));
+    const updatePath = options.updatePath ?? "/updates.xml";
+    
+    return createServer((request, response) => {
+        if (request.method != "GET" && request.method != "HEAD") {
+            response.writeHead(405, {"Allow": "GET, HEAD"}).end();
+            return;
+        }
+        let url;
+        try {
+            url = new URL(request.url ?? "/", "http://localhost");
+        } catch {
+            response.writeHead(400, {"Content-Type": "text/plain"}).end("Bad Request");
+            return;
+        }
+        
+        if (url.pathname == updatePath) {
+            const baseUrl = options.baseUrl ?? getLocalOrigin(request);
+            const query = parseUpdateQuery(url.searchParams);
+            const requested = query.length ? query : extensions.map(extension => ({id: extension.id, version: undefined}));
+            const apps: UpdateManifestApp[] = [];
+            for (const {id, version} of requested) {
+                const extension = extensions.find(extension => extension.id == id);
+                if (!extension) continue;
+                if (version && compareVersions(version, extension.version) >= 0) {
+                    apps.push({appid: id, updatecheck: {status: "noupdate"}});
+                } else {
+                    apps.push({appid: id, updatecheck: {
+                        codebase: new URL(extension.path, baseUrl).toString(),
+                        version: extension.version,
+                        prodversionmin: extension.minChromeVersion,
+                        hash_sha256: extension.hash_sha256,
+                        size: extension.size,
+                        status: "ok"
+                    }});
+                }
+            }
+            const xml = generateUpdateManifest(apps);
+            response.writeHead(200, {"Content-Type": "application/xml", "Cache-Control": "no-cache"});
+            response.end(request.method == "HEAD" ? undefined : xml);
+            return;
+        }
+        
+        const extension = extensions.find(extension => extension.path == url.pathname);
+        if (extension) {
+            serveCrx(request, response, extension);
+            return;
+        }
+        
+        response.writeHead(404, {"Content-Type": "text/plain"}).end("Not Found");
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * The worker for `findKeyForIdPrefix`, which generates keys until one's ID starts with the prefix.
+ * It only needs node:crypto, so it doesn't load the rest of the library.
+ */
+import { createHash, generateKeyPairSync } from "node:crypto";
+import { parentPort, workerData } from "node:worker_threads";
+
+export interface VanityWorkerData {
+    /** The prefix, as the numbers 0-15 that its letters stand for. */
+    nibbles: number[];
+    keyAlgorithm: "rsa" | "ecdsa";
+    keySize: number;
+}
+
+export type VanityWorkerMessage =
+    | {type: "progress", attempts: number}
+    | {type: "found", attempts: number, privateKey: Uint8Array, publicKey: Uint8Array};
+
+/**
+ * How often to report progress, in milliseconds
+ * @constant
+ */
+const PROGRESS_INTERVAL = 250;
+
+const {nibbles, keyAlgorithm, keySize} = workerData as VanityWorkerData;
+let attempts = 0, lastReport = Date.now();
+while (true) {
+    const {privateKey, publicKey} = keyAlgorithm == "ecdsa"
+        ? generateKeyPairSync("ec", {namedCurve: "P-256"})
+        : generateKeyPairSync("rsa", {modulusLength: keySize});
+    const spki = Uint8Array.from(publicKey.export({format: "der", type: "spki"}));
+    const hash = createHash("sha256").update(spki).digest();
+    attempts++;
+    // Each letter of the ID is one nibble of the hash, high nibble first
+    if (nibbles.every((nibble, i) => (i % 2 ? hash[i >> 1] & 0xf : hash[i >> 1] >> 4) == nibble)) {
+        parentPort!.postMessage({
+            type: "found",
+            attempts,
+            privateKey: Uint8Array.from(privateKey.export({format: "der", type: "pkcs8"})),
+            publicKey: spki
+        } satisfies VanityWorkerMessage);
+        break;
+    }
+    if (Date.now() - lastReport >= PROGRESS_INTERVAL) {
+        parentPort!.postMessage({type: "progress", attempts} satisfies VanityWorkerMessage);
+        attempts = 0;
+        lastReport = Date.now();
+    }
+}
@@ -0,0 +1,95 @@
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+import { OptionError, PackCrxError } from "./errors";
+import { generateCrxId, type KeyAlgorithm } from "./index";
+import type { VanityWorkerData, VanityWorkerMessage } from "./vanity-worker";
+
+export interface FindKeyProgress {
+    /** How many keys have been generated so far, across every worker. */
+    attempts: number;
+    /** How long the search has taken so far, in milliseconds. */
+    elapsed: number;
+    /** How many keys would be generated on average before finding a match. */
+    expectedAttempts: number;
+}
+
+export interface FindKeyOptions {
+    /** How many worker threads to generate keys on. Defaults to the number of CPUs. */
+    workers?: number;
+    /** How long to search for, in milliseconds, before giving up. No limit by default. */
+    timeout?: number;
+    /** The kind of key to generate. Defaults to `"ecdsa"`, since EC keys are much faster to generate; use `"rsa"` for CRX2. */
+    keyAlgorithm?: KeyAlgorithm;
+    /** The size of RSA keys to generate. Defaults to 4096. */
+    keySize?: number;
+    /** Stops the search when aborted. */
+    signal?: AbortSignal;
+    /** Called about four times a second while searching. */
+    onProgress?: (progress: FindKeyProgress) => void;
+}
+
+/**
+ * Generate keys until one gives an extension ID that starts with `prefix`.
+ * 
+ * Each letter of the ID is 4 bits of a hash, so every letter in the prefix makes the search 16 times longer: 4 letters take about 65,000 keys, and 6 take about 17 million.
+ * 
+ * @param prefix The start of the ID, in letters from `a` to `p`.
+ * @param options How to search.
+ * 
+ * @returns The matching key. Rejects with the signal's reason if it's aborted, or if `timeout` runs out.
+ */
+export function findKeyForIdPrefix(prefix: string, options: FindKeyOptions = {}): Promise<{
+    /** The private key, in pkcs8-der. */
+    privateKey: Uint8Array,
+    /** The public key, in spki-der. */
+    publicKey: Uint8Array,
+    /** The extension's ID. */
+    id: string,
+    /** How many keys were generated across every worker. */
+    attempts: number
+}> {
+    if (!/^[a-p]{1,32}$/.test(prefix)) return Promise.reject(new OptionError("INVALID_OPTION", `The prefix must be 1 to 32 letters from a to p: ${prefix}`, {field: "prefix"}));
+    if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+    const workerData: VanityWorkerData = {
+        nibbles: [...prefix].map(ch => ch.charCodeAt(0) - "a".charCodeAt(0)),
+        keyAlgorithm: options.keyAlgorithm ?? "ecdsa",
+        keySize: options.keySize ?? 4096
+    };
+    const expectedAttempts = 16 ** prefix.length;
+    const start = Date.now();
+    let attempts = 0;
+    
+    return new Promise((resolve, reject) => {
+        const workers: Worker[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let done = false;
+        const finish = (settle: () => void) => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", onAbort);
+            for (const worker of workers) void worker.terminate();
+            settle();
+        };
+        const onAbort = () => finish(() => reject(options.signal!.reason));
+        
+        options.signal?.addEventListener("abort", onAbort);
+        if (options.timeout != undefined) {
+            timer = setTimeout(() => finish(() => reject(new PackCrxError("TIMEOUT", `No key with an ID starting with ${prefix} was found in ${options.timeout}ms`, {field: "timeout"}))), options.timeout);
+        }
+        for (let i = 0; i < Math.max(1, options.workers ?? availableParallelism()); i++) {
+            const worker = new Worker(new URL("./vanity-worker.ts", import.meta.url), {workerData});
+            worker.on("message", (message: VanityWorkerMessage) => {
+                if (done) return;
+                attempts += message.attempts;
+                if (message.type == "found") {
+                    finish(() => resolve({privateKey: message.privateKey, publicKey: message.publicKey, id: generateCrxId(message.publicKey), attempts}));
+                } else {
+                    options.onProgress?.({attempts, elapsed: Date.now() - start, expectedAttempts});
+                }
+            });
+            worker.on("error", error => finish(() => reject(error)));
+            workers.push(worker);
+        }
+    });
+}
@@ -0,0 +1,54 @@
+import type { ChromeManifest, FileMap, KeyAlgorithm } from "./index";
+
+export { unpack, type AsymmetricKeyProof, type CrxFileHeader } from "./index";
+export type { ChromeManifest, FileMap, KeyAlgorithm } from "./index";
+export { PackCrxError, ManifestError, CrxFormatError, KeyError, ArchiveError, OptionError, type PackCrxErrorCode, type PackCrxErrorContext, type ManifestErrorCode, type CrxFormatErrorCode, type KeyErrorCode, type ArchiveErrorCode, type OptionErrorCode } from "./index";
+
+export interface ZipOptions {
+    /** Make the archive depend only on the files' paths and contents. */
+    reproducible?: boolean;
+    /** The modification time for every entry in reproducible mode. */
+    timestamp?: Date;
+    /** The DEFLATE compression level, from 1 to 9. */
+    compressionLevel?: number;
+}
+export function getKeyAlgorithm(key: Uint8Array | string, type: "private" | "public"): Promise<KeyAlgorithm>;
+export function generateCrxId(publicKey: Uint8Array): Promise<string>;
+export function generatePrivateKey(bits?: number, algorithm?: KeyAlgorithm): Promise<Uint8Array>;
+export function generatePublicKey(privateKey: Uint8Array): Promise<Uint8Array>;
+export function convertToPem(key: Uint8Array, type: "private" | "public"): string;
+export function convertFromPem(key: string, type: "private" | "public"): Uint8Array;
+export function packCrx3(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array): Promise<Uint8Array>;
+export function packFiles(files: FileMap, options?: ZipOptions): Promise<{
+    /** The zipped contents of the extension. */
+    contents: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}>;
+export interface WebPackInput extends ZipOptions {
+    /** The extension's files, or the ZIP archive of them. */
+    contents: FileMap | Uint8Array;
+    /** The private key for the extension, in pkcs8-der (or pkcs8-pem, if given as a string). Generated if not given. */
+    privateKey?: Uint8Array | string | null;
+    /** The public key for the extension, in spki-der (or pkcs8-pem, if given as a string). Derived from `privateKey` if not given. */
+    publicKey?: Uint8Array | string | null;
+    /** The size of key to generate, if needed. Defaults to 4096. */
+    keySize?: number;
+    /** The kind of key to generate, if needed. Defaults to `"rsa"`. */
+    keyAlgorithm?: KeyAlgorithm;
+}
+export function pack(input: WebPackInput): Promise<{
+    /** The CRX3 file. */
+    crx: Uint8Array,
+    /** The extension's ID. */
+    id: string,
+    /** The private key, in pkcs8-der. */
+    privateKey: Uint8Array,
+    /** The public key, in spki-der. */
+    publicKey: Uint8Array,
+    /** The zipped contents of the extension. */
+    contents: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}>;
+export default pack;
@@ -0,0 +1,195 @@
+/**
+ * An entry point that only uses web APIs (`crypto.subtle` instead of node:crypto and node-rsa, and in-memory files instead of paths),
+ * so extensions can be packed in browsers and workers too.
+ */
+import JSZip from "jszip";
+import Pbf from "pbf";
+import * as crx3 from "./crx3.pb";
+import { CRX_ID_SIZE, formatCrxId, generateCrx3SignedPayload, packFiles, readArchiveManifest, regenerateZip, rerootZip, writeCrx3, type CrxFileHeader, type FileMap, type ZipOptions } from "./crx-format";
+import { KeyError } from "./errors";
+import type { ChromeManifest, KeyAlgorithm } from "./index";
+
+export { packFiles, unpack, type AsymmetricKeyProof, type CrxFileHeader, type FileMap, type ZipOptions } from "./crx-format";
+export type { ChromeManifest, KeyAlgorithm } from "./index";
+export * from "./errors";
+
+const rsaAlgorithm = {name: "RSASSA-PKCS1-v1_5", hash: "SHA-256"};
+const ecdsaAlgorithm = {name: "ECDSA", namedCurve: "P-256"};
+
+async function importKey(key: Uint8Array, type: "private" | "public", extractable = false): Promise<{key: CryptoKey, algorithm: KeyAlgorithm}> {
+    const format = type == "private" ? "pkcs8" : "spki";
+    const usages = type == "private" ? ["sign" as const] : ["verify" as const];
+    try {
+        return {key: await crypto.subtle.importKey(format, key, rsaAlgorithm, extractable, usages), algorithm: "rsa"};
+    } catch (e) {}
+    try {
+        return {key: await crypto.subtle.importKey(format, key, ecdsaAlgorithm, extractable, usages), algorithm: "ecdsa"};
+    } catch (e) {}
+    throw new KeyError("KEY_UNSUPPORTED", "Only RSA and ECDSA P-256 keys are supported");
+}
+
+/**
+ * WebCrypto gives ECDSA signatures as the two raw numbers side by side, but CRX files need them DER-encoded.
+ */
+function encodeEcdsaSignature(signature: Uint8Array): Uint8Array {
+    const half = signature.length / 2;
+    const integers = [signature.subarray(0, half), signature.subarray(half)].map(value => {
+        let start = 0;
+        while (start < value.length - 1 && value[start] == 0) start++;
+        value = value.subarray(start);
+        // A set high bit would make the number negative
+        const padding = value[0] & 0x80 ? [0] : [];
+        return [0x02, value.length + padding.length, ...padding, ...value];
+    });
+    return Uint8Array.from([0x30, integers[0].length + integers[1].length, ...integers[0], ...integers[1]]);
+}
+
+function encodeBase64(data: Uint8Array): string {
+    let binary = "";
+    for (const byte of data) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+    return Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+}
+
+/**
+ * Find out what kind of key this is.
+ * 
+ * @param key The key, in pkcs8-der (or pkcs8-pem, if given as a string).
+ * @param type Whether the key is private or public.
+ * 
+ * @returns The key's algorithm. Rejects if the key is neither RSA nor ECDSA P-256.
+ */
+export async function getKeyAlgorithm(key: Uint8Array | string, type: "private" | "public"): Promise<KeyAlgorithm> {
+    return (await importKey(typeof key == "string" ? convertFromPem(key, type) : key, type)).algorithm;
+}
+
+/**
+ * Generate an extension's ID (32 characters, a-p) from its public key.
+ * 
+ * @param publicKey The public key of the extension. This can be an RSA key or an ECDSA P-256 key.
+ * 
+ * @returns The generated extension ID.
+ */
+export async function generateCrxId(publicKey: Uint8Array): Promise<string> {
+    return formatCrxId(new Uint8Array(await crypto.subtle.digest("SHA-256", publicKey)).slice(0, CRX_ID_SIZE));
+}
+
+export async function generatePrivateKey(bits = 4096, algorithm: KeyAlgorithm = "rsa"): Promise<Uint8Array> {
+    const keyPair = algorithm == "ecdsa"
+        ? await crypto.subtle.generateKey(ecdsaAlgorithm, true, ["sign", "verify"])
+        : await crypto.subtle.generateKey({...rsaAlgorithm, modulusLength: bits, publicExponent: Uint8Array.from([1, 0, 1])}, true, ["sign", "verify"]);
+    return new Uint8Array(await crypto.subtle.exportKey("pkcs8", keyPair.privateKey));
+}
+
+export async function generatePublicKey(privateKey: Uint8Array): Promise<Uint8Array> {
+    // WebCrypto can't derive a public key directly, but a private JWK has all of the public parts in it
+    const {key, algorithm} = await importKey(privateKey, "private", true);
+    const {kty, n, e, crv, x, y} = await crypto.subtle.exportKey("jwk", key);
+    const publicKey = await crypto.subtle.importKey("jwk", algorithm == "ecdsa" ? {kty, crv, x, y} : {kty, n, e}, algorithm == "ecdsa" ? ecdsaAlgorithm : rsaAlgorithm, true, ["verify"]);
+    return new Uint8Array(await crypto.subtle.exportKey("spki", publicKey));
+}
+
+export function convertToPem(key: Uint8Array, type: "private" | "public"): string {
+    const label = type == "private" ? "PRIVATE KEY" : "PUBLIC KEY";
+    return `-----BEGIN ${label}-----\n${encodeBase64(key).replace(/.{1,64}/g, "$&\n")}-----END ${label}-----\n`;
+}
+
+export function convertFromPem(key: string, type: "private" | "public"): Uint8Array {
+    const label = type == "private" ? "PRIVATE KEY" : "PUBLIC KEY";
+    const match = new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`).exec(key);
+    if (!match) throw new KeyError("KEY_PARSE_FAILED", `Expected a pkcs8-pem ${type} key`);
+    return decodeBase64(match[1].replace(/\s+/g, ""));
+}
+
+/**
+ * Pack a CRX3 extension.
+ * 
+ * @param privateKey The extension's private key. This can be an RSA key or an ECDSA P-256 key.
+ * @param publicKey The extension's public key.
+ * @param contents The zipped contents of the extension. This should contain a `manifest.json` file directly inside it, but we don't validate that in this function.
+ * 
+ * @returns The contents of the packaged extension.
+ */
+export async function packCrx3(privateKey: Uint8Array, publicKey: Uint8Array, contents: Uint8Array): Promise<Uint8Array> {
+    const pb = new Pbf();
+    crx3.SignedData.write({
+        crx_id: new Uint8Array(await crypto.subtle.digest("SHA-256", publicKey)).slice(0, CRX_ID_SIZE)
+    }, pb);
+    const signedHeaderData = pb.finish();
+    
+    const {key, algorithm} = await importKey(privateKey, "private");
+    const payload = generateCrx3SignedPayload(signedHeaderData, contents);
+    const signature = algorithm == "ecdsa"
+        ? encodeEcdsaSignature(new Uint8Array(await crypto.subtle.sign({name: "ECDSA", hash: "SHA-256"}, key, payload)))
+        : new Uint8Array(await crypto.subtle.sign(rsaAlgorithm, key, payload));
+    
+    const header: CrxFileHeader = {
+        [algorithm == "ecdsa" ? "sha256_with_ecdsa" : "sha256_with_rsa"]: [{public_key: publicKey, signature}],
+        signed_header_data: signedHeaderData
+    };
+    return writeCrx3(header, contents);
+}
+
+export interface WebPackInput extends ZipOptions {
+    /** The extension's files, or the ZIP archive of them. */
+    contents: FileMap | Uint8Array;
+    /** The private key for the extension, in pkcs8-der (or pkcs8-pem, if given as a string). Generated if not given. */
+    privateKey?: Uint8Array | string | null;
+    /** The public key for the extension, in spki-der (or pkcs8-pem, if given as a string). Derived from `privateKey` if not given. */
+    publicKey?: Uint8Array | string | null;
+    /** The size of key to generate, if needed. Defaults to 4096. */
+    keySize?: number;
+    /** The kind of key to generate, if needed. Defaults to `"rsa"`. */
+    keyAlgorithm?: KeyAlgorithm;
+}
+
+/**
+ * Pack an extension from memory into a CRX3 file. Works anywhere `crypto.subtle` does.
+ * 
+ * @param input The extension's contents and keys.
+ */
+export async function pack(input: WebPackInput): Promise<{
+    /** The CRX3 file. */
+    crx: Uint8Array,
+    /** The extension's ID. */
+    id: string,
+    /** The private key, in pkcs8-der. */
+    privateKey: Uint8Array,
+    /** The public key, in spki-der. */
+    publicKey: Uint8Array,
+    /** The zipped contents of the extension. */
+    contents: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest
+}> {
+    let contents: Uint8Array, manifest: ChromeManifest;
+    if (input.contents instanceof Uint8Array) {
+        const zip = await JSZip.loadAsync(input.contents);
+        const rerooted = await rerootZip(zip);
+        contents = rerooted ? await regenerateZip(rerooted) : input.contents;
+        manifest = await readArchiveManifest(rerooted ?? zip);
+    } else {
+        ({contents, manifest} = await packFiles(input.contents, input));
+    }
+    
+    const privateKey = typeof input.privateKey == "string"
+        ? convertFromPem(input.privateKey, "private")
+        : input.privateKey ?? await generatePrivateKey(input.keySize, input.keyAlgorithm);
+    const publicKey = typeof input.publicKey == "string"
+        ? convertFromPem(input.publicKey, "public")
+        : input.publicKey ?? await generatePublicKey(privateKey);
+    
+    return {
+        crx: await packCrx3(privateKey, publicKey, contents),
+        id: await generateCrxId(publicKey),
+        privateKey,
+        publicKey,
+        contents,
+        manifest
+    };
+}
+
+export default pack;
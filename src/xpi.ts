@@ -0,0 +1,84 @@
+import { createHash } from "node:crypto";
+import JSZip from "jszip";
+import { readArchiveManifest } from "./crx-format";
+import { ManifestError } from "./errors";
+import { packContents, type ChromeManifest, type PackContentsOptions } from "./index";
+
+/**
+ * Firefox add-on IDs are either a GUID in braces or look like an email address.
+ * @see {@link https://extensionworkshop.com/documentation/develop/extensions-and-the-add-on-id/}
+ * @constant
+ */
+const GECKO_ID_PATTERN = /^(\{[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}|[a-z0-9-._]*@[a-z0-9-._]+)$/i;
+
+/**
+ * Firefox add-on IDs can be at most 80 characters long
+ * @constant
+ */
+const MAX_GECKO_ID_LENGTH = 80;
+
+/**
+ * Check that a manifest has a valid Firefox add-on ID in `browser_specific_settings.gecko.id`.
+ * 
+ * @param manifest The extension's manifest.
+ * 
+ * @returns The add-on ID. Throws if it's missing or invalid.
+ */
+export function validateGeckoId(manifest: ChromeManifest): string {
+    const id = manifest.browser_specific_settings?.gecko?.id;
+    if (id == undefined) throw new ManifestError("MANIFEST_INVALID", "browser_specific_settings.gecko.id is required for Firefox", {field: "browser_specific_settings.gecko.id"});
+    if (typeof id != "string" || id.length > MAX_GECKO_ID_LENGTH || !GECKO_ID_PATTERN.test(id)) {
+        throw new ManifestError("MANIFEST_INVALID", `browser_specific_settings.gecko.id must be a GUID in braces or look like an email address, with at most ${MAX_GECKO_ID_LENGTH} characters: ${id}`, {field: "browser_specific_settings.gecko.id"});
+    }
+    return id;
+}
+
+/**
+ * Pack an extension as an unsigned Firefox XPI file. An XPI is a ZIP archive with `manifest.json` at its root, so the same files as a CRX work for both.
+ * 
+ * @param contents The path to the folder containing the extension (packed with `packContents`), or its ZIP archive.
+ * @param options Which files to pack, if `contents` is a path.
+ */
+export async function packXpi(contents: string | Uint8Array, options: PackContentsOptions = {}): Promise<{
+    /** The XPI file. */
+    xpi: Uint8Array,
+    /** The manifest for the extension, parsed as JSON. */
+    manifest: ChromeManifest,
+    /** The Firefox add-on ID. */
+    geckoId: string
+}> {
+    let xpi: Uint8Array, manifest: ChromeManifest;
+    if (typeof contents == "string") {
+        ({contents: xpi, manifest} = await packContents(contents, options));
+    } else {
+        xpi = contents;
+        manifest = await readArchiveManifest(await JSZip.loadAsync(xpi));
+    }
+    return {xpi, manifest, geckoId: validateGeckoId(manifest)};
+}
+
+/**
+ * Generate the `updates.json` file for [self-hosting a Firefox add-on](https://extensionworkshop.com/documentation/manage/updating-your-extension/).
+ * 
+ * @param geckoId The add-on's ID, from `browser_specific_settings.gecko.id`.
+ * @param url The URL where the add-on's XPI file will be hosted.
+ * @param version The add-on's version.
+ * @param minFirefoxVersion The minimum Firefox version that the add-on can be installed on.
+ * @param xpi The XPI file itself, to add its `update_hash`.
+ * 
+ * @returns The updates.json text
+ */
+export function generateUpdatesJSON(geckoId: string, url: string, version: string, minFirefoxVersion?: string, xpi?: Uint8Array): string {
+    return JSON.stringify({
+        addons: {
+            [geckoId]: {
+                updates: [{
+                    version,
+                    update_link: url,
+                    update_hash: xpi && `sha256:${createHash("sha256").update(xpi).digest("hex")}`,
+                    applications: minFirefoxVersion ? {gecko: {strict_min_version: minFirefoxVersion}} : undefined
+                }]
+            }
+        }
+    }, null, 2);
+}
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { OptionError, checkContentHashes, computeContentHashes } from "../src/index.ts";
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "pack-crx-hashes-"));
+    await fs.writeFile(join(dir, "manifest.json"), JSON.stringify({manifest_version: 3, name: "Test", version: "1.0"}));
+    await fs.writeFile(join(dir, "big.js"), "x".repeat(5000));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, {recursive: true, force: true});
+});
+
+describe("checkContentHashes", () => {
+    test("finds changed, missing and extra files", async () => {
+        const hashes = await computeContentHashes(dir);
+        expect(hashes.file_hashes.find(file => file.path == "big.js")!.block_hashes.length).toBe(2);
+        expect(await checkContentHashes(dir, hashes)).toEqual({valid: true, mismatched: [], missing: [], extra: []});
+
+        await fs.writeFile(join(dir, "big.js"), "y");
+        await fs.rm(join(dir, "manifest.json"));
+        await fs.writeFile(join(dir, "new.js"), "");
+        expect(await checkContentHashes(dir, hashes)).toEqual({valid: false, mismatched: ["big.js"], missing: ["manifest.json"], extra: ["new.js"]});
+    });
+
+    test("rejects a block size that isn't a positive whole number", async () => {
+        const hashes = await computeContentHashes(dir);
+        for (const blockSize of [0, -4096, 0.5, NaN, Infinity]) {
+            const promise = checkContentHashes(dir, {...hashes, file_hashes: hashes.file_hashes.map(file => ({...file, block_size: blockSize}))});
+            await expect(promise).rejects.toBeInstanceOf(OptionError);
+            await expect(promise).rejects.toMatchObject({code: "INVALID_OPTION", field: "block_size"});
+        }
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import {
+    CHROME_WEB_STORE_UPDATE_URL,
+    OptionError,
+    generateExtensionSettingsPolicy,
+    generateExternalExtensionJSON,
+    generateInstallForcelistPolicy,
+    generateMobileConfig,
+    generateRegistryFile
+} from "../src/index.ts";
+
+const storeId = "a".repeat(32);
+const hostedId = "b".repeat(32);
+const hosted = {id: hostedId, crxUrl: "https://example.com/b.crx", updateUrl: "https://example.com/updates.xml"};
+
+describe("generateInstallForcelistPolicy", () => {
+    test("lists each extension with its update URL", () => {
+        expect(JSON.parse(generateInstallForcelistPolicy([{id: storeId}, hosted]))).toEqual({
+            ExtensionInstallForcelist: [`${storeId};${CHROME_WEB_STORE_UPDATE_URL}`, `${hostedId};https://example.com/updates.xml`]
+        });
+    });
+
+    test("needs updateUrl for a self-hosted extension", () => {
+        expect(() => generateInstallForcelistPolicy([{id: hostedId, crxUrl: "https://example.com/b.crx"}])).toThrow(OptionError);
+    });
+});
+
+describe("generateExtensionSettingsPolicy", () => {
+    test("sets the installation mode, and the update URL only where it's needed", () => {
+        expect(JSON.parse(generateExtensionSettingsPolicy([{id: storeId, installationMode: "blocked"}, hosted]))).toEqual({
+            ExtensionSettings: {
+                [storeId]: {installation_mode: "blocked"},
+                [hostedId]: {installation_mode: "force_installed", update_url: "https://example.com/updates.xml"}
+            }
+        });
+    });
+});
+
+describe("generateExternalExtensionJSON", () => {
+    test("installs a CRX file on the machine", () => {
+        expect(JSON.parse(generateExternalExtensionJSON({id: storeId, crxUrl: "file:///opt/ext/a.crx", extVersion: "1.0"}))).toEqual({
+            external_crx: "/opt/ext/a.crx",
+            external_version: "1.0"
+        });
+        expect(() => generateExternalExtensionJSON({id: storeId, crxUrl: "/opt/ext/a.crx"})).toThrow(OptionError);
+    });
+
+    test("downloads anything else from its update URL", () => {
+        expect(JSON.parse(generateExternalExtensionJSON(hosted))).toEqual({external_update_url: "https://example.com/updates.xml"});
+    });
+});
+
+describe("generateRegistryFile", () => {
+    test("writes the forcelist with Windows line endings", () => {
+        expect(generateRegistryFile([{id: storeId}])).toBe([
+            "Windows Registry Editor Version 5.00",
+            "",
+            "[HKEY_LOCAL_MACHINE\\SOFTWARE\\Policies\\Google\\Chrome\\ExtensionInstallForcelist]",
+            `"1"="${storeId};${CHROME_WEB_STORE_UPDATE_URL}"`,
+            ""
+        ].join("\r\n"));
+    });
+
+    test("escapes the ExtensionSettings JSON", () => {
+        const line = generateRegistryFile([hosted], {policy: "ExtensionSettings"}).split("\r\n")[3];
+        expect(line).toStartWith(`"ExtensionSettings"="{\\"${hostedId}\\":`);
+    });
+});
+
+describe("generateMobileConfig", () => {
+    test("is the same every time for the same UUIDs", () => {
+        const options = {uuid: "4a1b", payloadUuid: "5c2d", organization: "A & B"};
+        const profile = generateMobileConfig([{id: storeId}], options);
+        expect(generateMobileConfig([{id: storeId}], options)).toBe(profile);
+        expect(profile).toContain("<string>4A1B</string>");
+        expect(profile).toContain("<string>5C2D</string>");
+        expect(profile).toContain("<string>A &amp; B</string>");
+        expect(profile).toContain(`<key>ExtensionInstallForcelist</key>\n\t\t\t<array>\n\t\t\t\t<string>${storeId};${CHROME_WEB_STORE_UPDATE_URL}</string>`);
+    });
+});
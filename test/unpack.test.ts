@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { CrxFormatError, unpack } from "../src/index.ts";
+
+function header(version: number, ...lengths: number[]): Uint8Array {
+    const bytes = new Uint8Array(8 + lengths.length * 4);
+    const dv = new DataView(bytes.buffer);
+    bytes.set([0x43, 0x72, 0x32, 0x34]);
+    dv.setUint32(4, version, true);
+    lengths.forEach((length, i) => dv.setUint32(8 + i * 4, length, true));
+    return bytes;
+}
+
+function unpackError(crx: Uint8Array): CrxFormatError {
+    try {
+        unpack(crx);
+    } catch (e) {
+        expect(e).toBeInstanceOf(CrxFormatError);
+        return e as CrxFormatError;
+    }
+    throw new Error("unpack didn't throw");
+}
+
+describe("unpack", () => {
+    test("rejects files that don't start with Cr24", () => {
+        expect(unpackError(new TextEncoder().encode("PK\x03\x04 not a crx")).code).toBe("BAD_MAGIC");
+        expect(unpackError(new Uint8Array([0x43, 0x72])).code).toBe("BAD_MAGIC");
+    });
+
+    test("rejects CRX versions other than 2 and 3", () => {
+        const error = unpackError(header(4, 0));
+        expect(error.code).toBe("UNSUPPORTED_CRX_VERSION");
+        expect(error.offset).toBe(4);
+    });
+
+    test("rejects files that end before the version", () => {
+        expect(unpackError(header(3).subarray(0, 6)).code).toBe("TRUNCATED_HEADER");
+    });
+
+    test("rejects CRX3 files that end before their header does", () => {
+        expect(unpackError(header(3)).code).toBe("TRUNCATED_HEADER");
+        const error = unpackError(header(3, 0xffffffff));
+        expect(error.code).toBe("TRUNCATED_HEADER");
+        expect(error.offset).toBe(12);
+    });
+
+    test("rejects CRX2 files that end before their key and signature do", () => {
+        expect(unpackError(header(2, 0)).code).toBe("TRUNCATED_HEADER");
+        expect(unpackError(header(2, 100, 100)).code).toBe("TRUNCATED_HEADER");
+    });
+
+    test("reads the archive after a CRX2 header", () => {
+        const crx = new Uint8Array([...header(2, 1, 2), 7, 8, 9, 1, 2, 3]);
+        const unpacked = unpack(crx);
+        expect(unpacked.crxVersion).toBe(2);
+        if (unpacked.crxVersion != 2) return;
+        expect([...unpacked.key]).toEqual([7]);
+        expect([...unpacked.sign]).toEqual([8, 9]);
+        expect([...unpacked.archive]).toEqual([1, 2, 3]);
+    });
+});
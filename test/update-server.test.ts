@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createUpdateServer, pack } from "../src/index.ts";
+
+let server: Server;
+let crxUrl: string;
+let crx: Uint8Array;
+let etag: string;
+
+beforeAll(async () => {
+    const result = await pack({
+        contents: {"manifest.json": JSON.stringify({manifest_version: 3, name: "Test", version: "1.0"})},
+        keyAlgorithm: "ecdsa",
+        crx: null,
+        id: null
+    });
+    crx = result.crx;
+    server = await createUpdateServer({extensions: [result]});
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()));
+    crxUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/${result.id}.crx`;
+    etag = (await fetch(crxUrl, {method: "HEAD"})).headers.get("etag")!;
+});
+
+afterAll(() => {
+    server.close();
+});
+
+async function get(headers: Record<string, string>): Promise<{status: number, contentRange: string | null, body: Uint8Array}> {
+    const response = await fetch(crxUrl, {headers});
+    return {status: response.status, contentRange: response.headers.get("content-range"), body: new Uint8Array(await response.arrayBuffer())};
+}
+
+describe("Range", () => {
+    test("serves a single range", async () => {
+        const response = await get({range: "bytes=0-9"});
+        expect(response.status).toBe(206);
+        expect(response.contentRange).toBe(`bytes 0-9/${crx.length}`);
+        expect(response.body).toEqual(crx.subarray(0, 10));
+    });
+
+    test("serves a suffix range", async () => {
+        const response = await get({range: "bytes=-5"});
+        expect(response.status).toBe(206);
+        expect(response.body).toEqual(crx.subarray(crx.length - 5));
+    });
+
+    test("serves the whole file for several ranges", async () => {
+        const response = await get({range: "bytes=0-9,20-29"});
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual(crx);
+    });
+
+    test("serves the whole file for a range it can't parse", async () => {
+        for (const range of ["items=0-9", "bytes=9-0", "bytes=-"]) {
+            const response = await get({range});
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(crx);
+        }
+    });
+
+    test("rejects a range past the end of the file", async () => {
+        const response = await get({range: `bytes=${crx.length}-`});
+        expect(response.status).toBe(416);
+        expect(response.contentRange).toBe(`bytes */${crx.length}`);
+    });
+
+    test("ignores the range if If-Range doesn't match", async () => {
+        const response = await get({range: "bytes=0-9", "if-range": "\"old\""});
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual(crx);
+    });
+});
+
+describe("If-None-Match", () => {
+    test("answers 304 for the current ETag or *", async () => {
+        expect((await get({"if-none-match": etag})).status).toBe(304);
+        expect((await get({"if-none-match": `"old", ${etag}`})).status).toBe(304);
+        expect((await get({"if-none-match": "*"})).status).toBe(304);
+    });
+
+    test("serves the file for another ETag", async () => {
+        expect((await get({"if-none-match": "\"old\""})).status).toBe(200);
+    });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import JSZip from "jszip";
+import { ManifestError, pack, unpack, watch, type ManifestValidation, type WatchBuild, type Watcher } from "../src/index.ts";
+
+const manifest = {manifest_version: 3, name: "Test", version: "1.0"};
+
+let dir: string;
+let watcher: Watcher | undefined;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "pack-crx-watch-"));
+    await fs.writeFile(join(dir, "manifest.json"), JSON.stringify(manifest));
+    await fs.writeFile(join(dir, "a.js"), "a");
+    await fs.writeFile(join(dir, "b.js"), "b");
+});
+
+afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    await fs.rm(dir, {recursive: true, force: true});
+});
+
+async function readArchive(crx: Uint8Array): Promise<{[path: string]: string}> {
+    const zip = await JSZip.loadAsync(unpack(crx).archive);
+    const files: {[path: string]: string} = {};
+    for (const file of Object.values(zip.files)) {
+        if (!file.dir) files[file.name] = await file.async("string");
+    }
+    return files;
+}
+
+function nextBuild(watcher: Watcher): Promise<WatchBuild> {
+    return once(watcher, "build").then(([build]) => build);
+}
+
+describe("watch", () => {
+    test("builds once at the start, then for each change", async () => {
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa", debounce: 50});
+        const first = await nextBuild(watcher);
+        await watcher.ready;
+        expect(first.changed).toEqual(["a.js", "b.js", "manifest.json"]);
+        expect(await readArchive(first.crx)).toEqual({"a.js": "a", "b.js": "b", "manifest.json": JSON.stringify(manifest)});
+
+        const second = nextBuild(watcher);
+        await fs.writeFile(join(dir, "a.js"), "changed");
+        const build = await second;
+        expect(build.changed).toEqual(["a.js"]);
+        expect((await readArchive(build.crx))["a.js"]).toBe("changed");
+        expect(build.id).toBe(first.id);
+    });
+
+    test("debounces changes into one build", async () => {
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa", debounce: 200});
+        await watcher.ready;
+        const builds: WatchBuild[] = [];
+        watcher.on("build", build => builds.push(build));
+        await fs.writeFile(join(dir, "a.js"), "1");
+        await fs.writeFile(join(dir, "c.js"), "c");
+        await fs.rm(join(dir, "b.js"));
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        expect(builds.length).toBe(1);
+        expect(builds[0].changed).toEqual(["a.js", "b.js", "c.js"]);
+        expect(await readArchive(builds[0].crx)).toEqual({"a.js": "1", "c.js": "c", "manifest.json": JSON.stringify(manifest)});
+    });
+
+    test("writes crxPath without packing it into itself", async () => {
+        const crxPath = join(dir, "out.crx");
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa", crxPath, debounce: 50});
+        const build = await nextBuild(watcher);
+        expect<Uint8Array>(new Uint8Array(await fs.readFile(crxPath))).toEqual(build.crx);
+
+        const second = nextBuild(watcher);
+        await fs.writeFile(join(dir, "a.js"), "changed");
+        expect(Object.keys(await readArchive((await second).crx))).not.toContain("out.crx");
+    });
+
+    test("emits invalid for a manifest with errors, and builds again once it's fixed", async () => {
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa", debounce: 50});
+        const first = await nextBuild(watcher);
+
+        const invalid = once(watcher, "invalid");
+        await fs.writeFile(join(dir, "manifest.json"), JSON.stringify({...manifest, background: {service_worker: "missing.js"}}));
+        const [validation] = await invalid as [ManifestValidation];
+        expect(validation.valid).toBe(false);
+
+        const fixed = nextBuild(watcher);
+        await fs.writeFile(join(dir, "missing.js"), "");
+        const build = await fixed;
+        expect(build.changed).toContain("missing.js");
+        expect(build.id).toBe(first.id);
+    });
+
+    test("emits error for a build that fails, and keeps watching", async () => {
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa", debounce: 50});
+        await watcher.ready;
+
+        const error = once(watcher, "error");
+        await fs.writeFile(join(dir, "manifest.json"), "{");
+        const [e] = await error;
+        expect(e).toBeInstanceOf(ManifestError);
+        expect(e.code).toBe("MANIFEST_INVALID_JSON");
+
+        const fixed = nextBuild(watcher);
+        await fs.writeFile(join(dir, "manifest.json"), JSON.stringify({...manifest, version: "1.1"}));
+        expect((await fixed).manifest.version).toBe("1.1");
+    });
+
+    test("rejects ready if the first build fails", async () => {
+        await fs.writeFile(join(dir, "manifest.json"), "{");
+        watcher = watch({contents: dir, keyAlgorithm: "ecdsa"});
+        await expect(watcher.ready).rejects.toBeInstanceOf(ManifestError);
+    });
+});
+
+describe("pack with watch", () => {
+    test("starts from the build pack did", async () => {
+        // Files changed right before pack started are read again
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const result = await pack({contents: dir, keyAlgorithm: "ecdsa", crx: null, id: null, watch: {debounce: 50}});
+        watcher = result.watcher;
+        const builds: WatchBuild[] = [];
+        watcher.on("build", build => builds.push(build));
+        await watcher.ready;
+        expect(builds.length).toBe(0);
+
+        const next = nextBuild(watcher);
+        await fs.writeFile(join(dir, "b.js"), "changed");
+        const build = await next;
+        expect(build.changed).toEqual(["b.js"]);
+        expect(build.id).toBe(result.id);
+        expect(await readArchive(build.crx)).toEqual({"a.js": "a", "b.js": "changed", "manifest.json": JSON.stringify(manifest)});
+    });
+});